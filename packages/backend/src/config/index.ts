@@ -6,12 +6,16 @@ interface Config {
   nodeEnv: string;
   port: number;
   corsOrigin: string | string[];
+  matchReportKey: string;
+  matchesPath: string;
 }
 
 const config: Config = {
   nodeEnv: process.env.NODE_ENV || 'development',
   port: parseInt(process.env.PORT || '3001', 10),
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:5173',
+  matchReportKey: process.env.MATCH_REPORT_KEY || '',
+  matchesPath: process.env.MATCHES_PATH || 'data/matches.jsonl',
 };
 
 export default config;
@@ -0,0 +1,15 @@
+import { timingSafeEqual } from 'crypto';
+import { type Request, type Response, type NextFunction } from 'express';
+import config from '../config/index.js';
+import { createError } from './errorHandler.js';
+
+/** Only the game server, which shares MATCH_REPORT_KEY, may submit match results. */
+export const requireReportKey = (req: Request, _res: Response, next: NextFunction): void => {
+  const provided = Buffer.from(req.get('x-match-report-key') ?? '');
+  const expected = Buffer.from(config.matchReportKey);
+  if (expected.length === 0 || provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    next(createError('Invalid match report key', 401));
+    return;
+  }
+  next();
+};
@@ -1,4 +1,8 @@
 import { Router } from 'express';
+import matchRoutes from './matches.js';
+import playerRoutes from './players.js';
+import { ratingStore } from '../services/ratingStore.js';
+import { paginate, parsePagination } from '../utils/pagination.js';
 
 const router = Router();
 
@@ -10,6 +14,16 @@ router.get('/hello', (req, res) => {
   });
 });
 
+// Players ranked by rating
+router.get('/leaderboard', (req, res) => {
+  const { page, pageSize } = parsePagination(req.query);
+  const ranked = ratingStore.leaderboard().map((stats, i) => ({ rank: i + 1, ...stats }));
+  res.json(paginate(ranked, page, pageSize));
+});
+
+router.use('/matches', matchRoutes);
+router.use('/players', playerRoutes);
+
 // Add more API routes here
 // router.post('/users', createUser);
 // router.get('/users/:id', getUser);
@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { createError } from '../middleware/errorHandler.js';
+import { requireReportKey } from '../middleware/requireReportKey.js';
+import { ratingStore, type MatchEndReason, type MatchPlayer, type MatchReport } from '../services/ratingStore.js';
+
+const router = Router();
+
+const END_REASONS: MatchEndReason[] = ['chest_found', 'timeout', 'abandoned'];
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/;
+const MAX_ID_LENGTH = 128;
+const MAX_PLAYERS = 16;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isAddress = (value: unknown): value is string =>
+  typeof value === 'string' && ADDRESS_RE.test(value);
+
+const isId = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH;
+
+const isAmount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/** Narrows a posted body to a MatchReport, keeping only the fields it names. */
+const parseMatchReport = (body: unknown): MatchReport => {
+  const fail = (message: string) => createError(`Invalid match report: ${message}`, 400);
+
+  if (!isRecord(body)) throw fail('body must be an object');
+  const { id, players, winnerAddress, reason, durationMs, pot, asset, endedAt } = body;
+
+  if (!isId(id)) throw fail(`id must be a string of 1 to ${MAX_ID_LENGTH} characters`);
+  if (!Array.isArray(players) || players.length === 0 || players.length > MAX_PLAYERS) {
+    throw fail(`players must be an array of 1 to ${MAX_PLAYERS} entries`);
+  }
+  const parsedPlayers: MatchPlayer[] = players.map((p: unknown) => {
+    if (!isRecord(p) || !isId(p.playerId) || !isAddress(p.address)) {
+      throw fail('each player needs a playerId and a valid address');
+    }
+    return { playerId: p.playerId, address: p.address };
+  });
+  if (winnerAddress !== null && !isAddress(winnerAddress)) throw fail('winnerAddress must be an address or null');
+  if (!END_REASONS.includes(reason as MatchEndReason)) throw fail(`reason must be one of ${END_REASONS.join(', ')}`);
+  if (!isAmount(durationMs)) throw fail('durationMs must be a non-negative number');
+  if (!isAmount(pot)) throw fail('pot must be a non-negative number');
+  if (!isId(asset)) throw fail('asset is required');
+  if (typeof endedAt !== 'string' || Number.isNaN(Date.parse(endedAt))) throw fail('endedAt must be an ISO date');
+
+  return {
+    id,
+    players: parsedPlayers,
+    winnerAddress,
+    reason: reason as MatchEndReason,
+    durationMs,
+    pot,
+    asset,
+    endedAt,
+  };
+};
+
+// Report a finished match (game server only)
+router.post('/', requireReportKey, (req, res) => {
+  const { record, created } = ratingStore.record(parseMatchReport(req.body));
+  res.status(created ? 201 : 200).json(record);
+});
+
+// Get a single match with its rating changes
+router.get('/:id', (req, res) => {
+  const match = ratingStore.getMatch(req.params.id);
+  if (!match) throw createError('Match not found', 404);
+  res.json(match);
+});
+
+export default router;
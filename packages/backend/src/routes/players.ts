@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { createError } from '../middleware/errorHandler.js';
+import { DEFAULT_RATING, ratingStore } from '../services/ratingStore.js';
+import { paginate, parsePagination } from '../utils/pagination.js';
+
+const router = Router();
+
+// Player rating, record and paginated match history
+router.get('/:address', (req, res) => {
+  const { address } = req.params;
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) throw createError('Invalid address', 400);
+
+  const { page, pageSize } = parsePagination(req.query);
+  const stats = ratingStore.getPlayer(address) ?? {
+    address: address.toLowerCase(),
+    rating: DEFAULT_RATING,
+    games: 0,
+    wins: 0,
+    losses: 0,
+    lastPlayedAt: null,
+  };
+
+  res.json({
+    ...stats,
+    matches: paginate(ratingStore.getPlayerMatches(address), page, pageSize),
+  });
+});
+
+export default router;
@@ -0,0 +1,145 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname } from 'path';
+import config from '../config/index.js';
+
+export const DEFAULT_RATING = 1200;
+const ELO_K = 32;
+
+export type MatchEndReason = 'chest_found' | 'timeout' | 'abandoned';
+
+export interface MatchPlayer {
+  playerId: string;
+  address: string;
+}
+
+/** What the game server posts when a match ends. */
+export interface MatchReport {
+  id: string;
+  players: MatchPlayer[];
+  winnerAddress: string | null;
+  reason: MatchEndReason;
+  durationMs: number;
+  pot: number;
+  asset: string;
+  endedAt: string;
+}
+
+export interface MatchRecord extends MatchReport {
+  /** Rating change per lowercase address, empty when nobody won. */
+  ratingChanges: Record<string, number>;
+}
+
+export interface PlayerStats {
+  address: string;
+  rating: number;
+  games: number;
+  wins: number;
+  losses: number;
+  lastPlayedAt: string;
+}
+
+/**
+ * Elo ratings per wallet, rebuilt from an append-only JSONL file of match
+ * reports. The winner of a match is treated as beating every other player
+ * in it, with K split across opponents; matches without a winner only count
+ * towards games played.
+ */
+export class RatingStore {
+  private matches = new Map<string, MatchRecord>();
+  private players = new Map<string, PlayerStats>();
+  private history = new Map<string, MatchRecord[]>();
+
+  constructor(private path: string) {
+    this.load();
+  }
+
+  getMatch(id: string): MatchRecord | undefined {
+    return this.matches.get(id);
+  }
+
+  getPlayer(address: string): PlayerStats | undefined {
+    return this.players.get(address.toLowerCase());
+  }
+
+  /** Matches the player took part in, newest first. */
+  getPlayerMatches(address: string): MatchRecord[] {
+    return [...(this.history.get(address.toLowerCase()) ?? [])].reverse();
+  }
+
+  /** Players sorted by rating, highest first. */
+  leaderboard(): PlayerStats[] {
+    return Array.from(this.players.values()).sort((a, b) => b.rating - a.rating || b.wins - a.wins);
+  }
+
+  /**
+   * Records a finished match. Reports are keyed by match id, so a retried
+   * report returns the original record instead of counting twice.
+   */
+  record(report: MatchReport): { record: MatchRecord; created: boolean } {
+    const existing = this.matches.get(report.id);
+    if (existing) return { record: existing, created: false };
+
+    appendFileSync(this.path, JSON.stringify(report) + '\n');
+    return { record: this.apply(report), created: true };
+  }
+
+  private load() {
+    mkdirSync(dirname(this.path), { recursive: true });
+    if (!existsSync(this.path)) return;
+
+    for (const line of readFileSync(this.path, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try { this.apply(JSON.parse(line)); }
+      catch { console.error('[Ratings] Skipping corrupt line:', line); }
+    }
+    console.log(`[Ratings] Loaded ${this.matches.size} matches from ${this.path}`);
+  }
+
+  private apply(report: MatchReport): MatchRecord {
+    const addresses = Array.from(new Set(report.players.map(p => p.address.toLowerCase())));
+    const winner = report.winnerAddress?.toLowerCase() ?? null;
+    const ratingChanges: Record<string, number> = {};
+
+    if (winner && addresses.includes(winner) && addresses.length > 1) {
+      const losers = addresses.filter(a => a !== winner);
+      const k = ELO_K / losers.length;
+      const winnerRating = this.stats(winner, report.endedAt).rating;
+      let winnerDelta = 0;
+      for (const loser of losers) {
+        const expected = 1 / (1 + 10 ** ((this.stats(loser, report.endedAt).rating - winnerRating) / 400));
+        const delta = k * (1 - expected);
+        winnerDelta += delta;
+        ratingChanges[loser] = -delta;
+      }
+      ratingChanges[winner] = winnerDelta;
+    }
+
+    const record: MatchRecord = { ...report, ratingChanges };
+    for (const address of addresses) {
+      const stats = this.stats(address, report.endedAt);
+      stats.rating += ratingChanges[address] ?? 0;
+      stats.games++;
+      if (winner === address) stats.wins++;
+      else if (winner) stats.losses++;
+      stats.lastPlayedAt = report.endedAt;
+
+      const list = this.history.get(address) ?? [];
+      list.push(record);
+      this.history.set(address, list);
+    }
+
+    this.matches.set(record.id, record);
+    return record;
+  }
+
+  private stats(address: string, at: string): PlayerStats {
+    let stats = this.players.get(address);
+    if (!stats) {
+      stats = { address, rating: DEFAULT_RATING, games: 0, wins: 0, losses: 0, lastPlayedAt: at };
+      this.players.set(address, stats);
+    }
+    return stats;
+  }
+}
+
+export const ratingStore = new RatingStore(config.matchesPath);
@@ -0,0 +1,35 @@
+import { createError } from '../middleware/errorHandler.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export interface Page<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+const parsePositiveInt = (value: unknown, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw createError(`${name} must be a positive integer`, 400);
+  }
+  return n;
+};
+
+/** Reads `?page=` (1-based) and `?pageSize=` from a query string. */
+export const parsePagination = (query: Record<string, unknown>): { page: number; pageSize: number } => ({
+  page: parsePositiveInt(query.page, 'page', 1),
+  pageSize: Math.min(parsePositiveInt(query.pageSize, 'pageSize', DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE),
+});
+
+export const paginate = <T>(all: T[], page: number, pageSize: number): Page<T> => ({
+  items: all.slice((page - 1) * pageSize, page * pageSize),
+  page,
+  pageSize,
+  total: all.length,
+  totalPages: Math.ceil(all.length / pageSize),
+});
@@ -4,17 +4,22 @@ import { Scene } from "@/components/three/Scene"
 import { MainMenu } from "@/components/MainMenu"
 import { YellowDebugUI } from "@/components/YellowDebugUI"
 import { GameHUD } from "@/components/GameHUD"
+import { ReplayViewer } from "@/components/ReplayViewer"
 import { useGame } from "@/contexts/GameContext"
+import { useSecondsLeft } from "@/lib/serverClock"
+import { END_RULE_LABELS } from "@/lib/endRules"
 import { RoomPhase } from "@/types/game"
+import type { RoomSettings } from "@/types/game"
 import * as THREE from 'three'
 
-type GameState = 'menu' | 'lobby' | 'playing' | 'ended'
+type GameState = 'menu' | 'lobby' | 'playing' | 'ended' | 'replay'
 
 function App() {
   const [gameState, setGameState] = useState<GameState>('menu')
   const [seed, setSeed] = useState(0)
   const playerRef = useRef<THREE.Group>(null)
   const game = useGame()
+  const countdown = useSecondsLeft(game.countdownEndsAt)
   const gameRef = useRef(game)
   gameRef.current = game
   const actionThrottleRef = useRef(0)
@@ -25,7 +30,7 @@ function App() {
       setGameState('playing')
     } else if (game.phase === RoomPhase.Ended) {
       setGameState('ended')
-    } else if (game.phase === RoomPhase.Lobby || game.phase === 'connecting' || game.phase === 'wager_pending') {
+    } else if (game.phase === RoomPhase.Lobby || game.phase === 'connecting' || game.phase === 'authenticating' || game.phase === 'matchmaking' || game.phase === 'wager_pending') {
       setGameState('lobby')
     } else if (game.phase === 'disconnected') {
       if (gameState === 'lobby' || gameState === 'ended') {
@@ -73,8 +78,16 @@ function App() {
     }
   }, [])
 
-  const handleFindGame = () => {
-    game.joinGame()
+  const handleFindGame = (tier: number) => {
+    game.findMatch(tier)
+  }
+
+  const handleCreateGame = (settings: Partial<RoomSettings>) => {
+    game.createPrivateGame(settings)
+  }
+
+  const handleJoinByCode = (code: string) => {
+    game.joinGame(code)
   }
 
   const handleBackToMenu = () => {
@@ -83,7 +96,18 @@ function App() {
   }
 
   if (gameState === 'menu') {
-    return <MainMenu onFindGame={handleFindGame} />
+    return (
+      <MainMenu
+        onFindGame={handleFindGame}
+        onCreateGame={handleCreateGame}
+        onJoinByCode={handleJoinByCode}
+        onWatchReplay={() => setGameState('replay')}
+      />
+    )
+  }
+
+  if (gameState === 'replay') {
+    return <ReplayViewer onExit={() => setGameState('menu')} />
   }
 
   if (gameState === 'lobby') {
@@ -92,11 +116,34 @@ function App() {
         <div className="bg-background p-6 rounded-2xl border shadow-2xl text-center max-w-sm">
           <h2 className="text-2xl font-bold mb-2">
             {game.phase === 'connecting' && 'Connecting...'}
+            {game.phase === 'authenticating' && 'Sign in with your wallet...'}
+            {game.phase === 'matchmaking' && 'Finding a match...'}
             {game.phase === 'wager_pending' && 'Processing wager...'}
+            {game.phase === 'reconnecting' && 'Reconnecting...'}
             {game.phase === RoomPhase.Lobby && 'Waiting for players'}
           </h2>
-          {game.countdown > 0 && (
-            <p className="text-4xl font-bold text-primary my-4">{game.countdown}</p>
+          {countdown > 0 && (
+            <p className="text-4xl font-bold text-primary my-4">{countdown}</p>
+          )}
+          {game.phase === 'matchmaking' && game.matchmaking && (
+            <p className="text-xs text-muted-foreground mb-2">
+              Tier {game.matchmaking.tier} · rating {game.matchmaking.rating} ±{game.matchmaking.ratingWindow} · {game.matchmaking.playersInQueue} in queue · {Math.floor(game.matchmaking.waitedMs / 1000)}s
+            </p>
+          )}
+          {game.inviteCode && (
+            <p className="text-sm mb-2">
+              Invite code: <span className="font-mono font-bold tracking-widest">{game.inviteCode}</span>
+            </p>
+          )}
+          {game.roomSettings && (
+            <p className="text-xs text-muted-foreground mb-2">
+              Wager {game.roomSettings.wagerAmount} {game.roomSettings.asset} · {game.roomSettings.minPlayers}-{game.roomSettings.maxPlayers} players
+            </p>
+          )}
+          {game.roomSettings && (
+            <p className="text-xs text-muted-foreground mb-2">
+              {game.mode ? `${game.mode.name} · ` : ''}{END_RULE_LABELS[game.roomSettings.endRule]}
+            </p>
           )}
           <p className="text-sm text-muted-foreground mb-4">
             {game.players.length} player{game.players.length !== 1 ? 's' : ''} in room
@@ -128,6 +175,12 @@ function App() {
       <GameHUD />
       <YellowDebugUI playerRef={playerRef} />
 
+      {game.phase === 'reconnecting' && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 px-4 py-2 bg-background/90 rounded-lg border shadow-sm pointer-events-none">
+          <p className="text-sm font-medium">Connection lost, reconnecting...</p>
+        </div>
+      )}
+
       <div className="absolute top-4 left-4 p-4 bg-background/80 backdrop-blur rounded-lg border shadow-sm pointer-events-none">
         <h1 className="text-xl font-bold mb-2">Island Treasure Hunt</h1>
         <p className="text-sm text-muted-foreground">
@@ -156,6 +209,9 @@ function App() {
             {game.payoutAmount != null && (
               <p className="text-green-500 font-bold mb-4">Payout: {game.payoutAmount}</p>
             )}
+            {game.error && (
+              <p className="text-sm text-destructive mb-4">{game.error}</p>
+            )}
             <button
               className="bg-primary text-primary-foreground px-6 py-2 rounded-full font-bold"
               onClick={handleBackToMenu}
@@ -0,0 +1,65 @@
+import { useEffect } from 'react';
+import { useGame } from '@/contexts/GameContext';
+import { RECIPES } from '@game/recipes';
+import type { Recipe, RecipeCost } from '@game/recipes';
+import { GAME_MODES, scaleCost } from '@game/gameModes';
+import type { Inventory } from '@/types/game';
+
+function formatCost(cost: RecipeCost) {
+  return Object.entries(cost).map(([item, amount]) => `${amount} ${item}`).join(', ');
+}
+
+function canAfford(inventory: Inventory, cost: RecipeCost) {
+  return Object.entries(cost).every(([item, amount]) => inventory[item as keyof Inventory] >= amount);
+}
+
+/** Lists every recipe with its next tier; number keys 1-4 craft while the pointer is locked. */
+export function CraftingPanel() {
+  const { inventory, upgrades, players, playerId, mode, craft } = useGame();
+  const busy = players.find(p => p.id === playerId)?.currentAction !== 'idle';
+
+  const nextTier = (recipe: Recipe) => recipe.tiers[upgrades[recipe.counter]];
+  const costOf = (cost: RecipeCost) => scaleCost(cost, mode ?? GAME_MODES.classic);
+  const craftable = (recipe: Recipe) => {
+    const tier = nextTier(recipe);
+    return !busy && tier !== undefined && canAfford(inventory, costOf(tier.cost));
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const recipe = RECIPES[Number(e.key) - 1];
+      if (recipe && craftable(recipe)) craft(recipe.id);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  return (
+    <div className="bg-black/70 backdrop-blur text-white p-3 rounded-lg text-sm w-[220px] pointer-events-auto">
+      <div className="font-bold mb-1 text-xs uppercase tracking-wide opacity-70">Crafting</div>
+      <div className="flex flex-col gap-1.5">
+        {RECIPES.map((recipe, i) => {
+          const tier = nextTier(recipe);
+          const crafted = upgrades[recipe.counter];
+          return (
+            <button
+              key={recipe.id}
+              className="text-left px-2 py-1 rounded border border-white/10 enabled:hover:bg-white/10 disabled:opacity-50"
+              disabled={!craftable(recipe)}
+              onClick={() => craft(recipe.id)}
+              title={recipe.description}
+            >
+              <div className="flex justify-between">
+                <span><span className="opacity-50">{i + 1}</span> {recipe.name}</span>
+                <span className="text-xs opacity-70">{crafted}/{recipe.tiers.length}</span>
+              </div>
+              <div className="text-xs opacity-70">
+                {tier ? `${formatCost(costOf(tier.cost))} · ${tier.durationMs / 1000}s` : 'Fully crafted'}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,89 @@
+import { useEffect, useState } from 'react';
 import { useGame } from '@/contexts/GameContext';
+import type { PvpEvent } from '@/contexts/GameContext';
+import { CraftingPanel } from '@/components/CraftingPanel';
+import { PvpPanel } from '@/components/PvpPanel';
+import { useSecondsLeft } from '@/lib/serverClock';
 import { RoomPhase } from '@/types/game';
+import type { PlayerState } from '@/types/game';
+
+// How long shoves, thefts and traps involving the local player stay in the feed
+const PVP_FEED_MS = 5_000;
+
+const ACTION_LABELS: Record<Exclude<PlayerState['currentAction'], 'idle'>, string> = {
+  harvesting: 'Harvesting',
+  digging: 'Digging',
+  crafting: 'Crafting',
+  stealing: 'Stealing',
+  planting: 'Planting trap',
+};
+
+function formatClock(seconds: number) {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/** The event as the local player reads it, or null if it does not involve them. */
+function describePvpEvent(event: PvpEvent, me: string | null, name: (id: string) => string): string | null {
+  const mine = event.playerId === me;
+  if (!mine && event.targetId !== me) return null;
+  switch (event.kind) {
+    case 'shove':
+      return mine ? `You shoved ${name(event.targetId)}` : `${name(event.playerId)} shoved you`;
+    case 'steal':
+      if (!event.item) return mine ? `${name(event.targetId)} got away` : null;
+      return mine ? `You stole 1 ${event.item}` : `${name(event.playerId)} stole 1 ${event.item}`;
+    case 'trap':
+      return mine ? 'You sprang a trap' : `${name(event.playerId)} sprang your trap`;
+  }
+}
+
+/** Shoves, thefts and traps involving the local player, each shown for PVP_FEED_MS. */
+function PvpFeed({ events, players, playerId }: { events: PvpEvent[]; players: PlayerState[]; playerId: string | null }) {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (events.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [events]);
+
+  const shortName = (id: string) => `${players.find(p => p.id === id)?.address.slice(0, 8) ?? id}...`;
+  const feed = events
+    .filter(e => now - e.at < PVP_FEED_MS)
+    .map(e => ({ id: e.id, text: describePvpEvent(e, playerId, shortName) }))
+    .filter(e => e.text !== null);
+  if (feed.length === 0) return null;
+
+  return (
+    <div className="bg-red-900/80 backdrop-blur text-red-100 p-3 rounded-lg text-sm">
+      {feed.map(e => <div key={e.id}>{e.text}</div>)}
+    </div>
+  );
+}
 
 export function GameHUD() {
-  const { phase, inventory, countdown, winner, winReason, payoutAmount, players, mapHint } = useGame();
+  const {
+    phase, inventory, countdownEndsAt, gameEndsAt, actionEndsAt, ping,
+    winner, winReason, payoutAmount, players, playerId, mapHint, pvpEvents,
+  } = useGame();
+  const countdown = useSecondsLeft(countdownEndsAt);
+  const timeLeft = useSecondsLeft(gameEndsAt);
+  const actionLeft = useSecondsLeft(actionEndsAt);
+  const action = players.find(p => p.id === playerId)?.currentAction;
 
   if (phase !== RoomPhase.Playing && phase !== RoomPhase.Ended) return null;
 
   return (
     <div className="absolute top-4 right-4 flex flex-col gap-2 pointer-events-none z-10">
-      {/* Inventory */}
-      <div className="bg-black/70 backdrop-blur text-white p-3 rounded-lg text-sm min-w-[160px]">
-        <div className="font-bold mb-1 text-xs uppercase tracking-wide opacity-70">Inventory</div>
-        <div className="flex flex-col gap-0.5">
-          <div className="flex justify-between"><span>Wood</span><span>{inventory.wood}</span></div>
-          <div className="flex justify-between"><span>Stone</span><span>{inventory.stone}</span></div>
-          <div className="flex justify-between"><span>Berry</span><span>{inventory.berry}</span></div>
+      {/* Inventory and crafting */}
+      <div className="flex gap-2 items-start justify-end">
+        {phase === RoomPhase.Playing && <CraftingPanel />}
+        <div className="bg-black/70 backdrop-blur text-white p-3 rounded-lg text-sm min-w-[160px]">
+          <div className="font-bold mb-1 text-xs uppercase tracking-wide opacity-70">Inventory</div>
+          <div className="flex flex-col gap-0.5">
+            <div className="flex justify-between"><span>Wood</span><span>{inventory.wood}</span></div>
+            <div className="flex justify-between"><span>Stone</span><span>{inventory.stone}</span></div>
+            <div className="flex justify-between"><span>Berry</span><span>{inventory.berry}</span></div>
+          </div>
         </div>
       </div>
 
@@ -22,8 +91,36 @@ export function GameHUD() {
       <div className="bg-black/70 backdrop-blur text-white p-3 rounded-lg text-sm">
         <div className="font-bold mb-1 text-xs uppercase tracking-wide opacity-70">Players</div>
         <div>{players.filter(p => p.connected).length} connected</div>
+        {[...players].sort((a, b) => b.score - a.score).map(p => (
+          <div key={p.id} className={`flex justify-between gap-3 text-xs ${p.id === playerId ? 'font-bold' : 'opacity-70'}`}>
+            <span>{p.id === playerId ? 'You' : `${p.address.slice(0, 8)}...`}</span>
+            <span>
+              {p.score} pts
+              {p.id !== playerId && p.connected && p.latency > 0 && ` · ${p.latency} ms`}
+            </span>
+          </div>
+        ))}
       </div>
 
+      {phase === RoomPhase.Playing && <PvpPanel />}
+
+      {/* Match clock and connection */}
+      {phase === RoomPhase.Playing && (
+        <div className="bg-black/70 backdrop-blur text-white p-3 rounded-lg text-sm">
+          <div className="flex justify-between"><span>Time left</span><span>{formatClock(timeLeft)}</span></div>
+          <div className="flex justify-between text-xs opacity-70"><span>Ping</span><span>{ping === null ? '--' : `${ping} ms`}</span></div>
+        </div>
+      )}
+
+      {/* Current action */}
+      {actionLeft > 0 && action && action !== 'idle' && (
+        <div className="bg-black/70 backdrop-blur text-white p-3 rounded-lg text-sm text-center">
+          {ACTION_LABELS[action]}... {actionLeft}s
+        </div>
+      )}
+
+      <PvpFeed events={pvpEvents} players={players} playerId={playerId} />
+
       {/* Map hint */}
       {mapHint && (
         <div className="bg-yellow-900/80 backdrop-blur text-yellow-200 p-3 rounded-lg text-sm">
@@ -1,19 +1,51 @@
+import { useState } from 'react'
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ConnectButton } from '@rainbow-me/rainbowkit'
 import { useAccount } from 'wagmi'
 import { useYellow } from '@/contexts/YellowContext'
+import { END_RULES } from '@/types/game'
+import type { EndRule, GameModeId, RoomSettings } from '@/types/game'
+import { GAME_MODES, GAME_MODE_IDS } from '@game/gameModes'
+import { END_RULE_LABELS } from '@/lib/endRules'
+
+// Wager tiers offered by the matchmaker (MATCH_TIERS on the game server).
+const MATCH_TIERS = [1, 5, 25]
 
 interface MainMenuProps {
-  onFindGame: () => void
+  onFindGame: (tier: number) => void
+  onCreateGame: (settings: Partial<RoomSettings>) => void
+  onJoinByCode: (code: string) => void
+  onWatchReplay: () => void
 }
 
-export function MainMenu({ onFindGame }: MainMenuProps) {
+export function MainMenu({ onFindGame, onCreateGame, onJoinByCode, onWatchReplay }: MainMenuProps) {
   const { address, isConnected } = useAccount()
   const yellow = useYellow()
+  const [tier, setTier] = useState(5)
+  const [privateMode, setPrivateMode] = useState<'create' | 'join' | null>(null)
+  const [wagerAmount, setWagerAmount] = useState('5')
+  const [minPlayers, setMinPlayers] = useState('2')
+  const [maxPlayers, setMaxPlayers] = useState('8')
+  const [mode, setMode] = useState<GameModeId>('classic')
+  const [endRule, setEndRule] = useState<EndRule>('refund')
+  const [code, setCode] = useState('')
 
   const canPlay = isConnected && yellow.isReady
 
+  const handleCreate = () => {
+    onCreateGame({
+      wagerAmount: Number(wagerAmount),
+      minPlayers: parseInt(minPlayers, 10),
+      maxPlayers: parseInt(maxPlayers, 10),
+      endRule,
+      mode,
+    })
+  }
+
   return (
     <div className="flex items-center justify-center w-screen h-screen bg-slate-900 overflow-hidden">
       <Card className="w-[400px] shadow-2xl">
@@ -60,14 +92,112 @@ export function MainMenu({ onFindGame }: MainMenuProps) {
             </ul>
           </div>
 
+          <div className="flex flex-col gap-2 mt-4">
+            <h3 className="font-semibold text-sm">Wager tier (ytest.usd):</h3>
+            <div className="grid grid-cols-3 gap-2">
+              {MATCH_TIERS.map(t => (
+                <Button
+                  key={t}
+                  variant={tier === t ? 'secondary' : 'outline'}
+                  onClick={() => setTier(t)}
+                >
+                  {t}
+                </Button>
+              ))}
+            </div>
+          </div>
+
           <Button
             size="lg"
-            className="w-full mt-4"
-            onClick={onFindGame}
+            className="w-full"
+            onClick={() => onFindGame(tier)}
             disabled={!canPlay}
           >
             {!isConnected ? 'Connect Wallet First' : !yellow.isReady ? 'Connect Yellow First' : 'Find Game'}
           </Button>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant={privateMode === 'create' ? 'secondary' : 'outline'}
+              onClick={() => setPrivateMode(privateMode === 'create' ? null : 'create')}
+              disabled={!canPlay}
+            >
+              Create private game
+            </Button>
+            <Button
+              variant={privateMode === 'join' ? 'secondary' : 'outline'}
+              onClick={() => setPrivateMode(privateMode === 'join' ? null : 'join')}
+              disabled={!canPlay}
+            >
+              Join by code
+            </Button>
+          </div>
+
+          {canPlay && privateMode === 'create' && (
+            <div className="flex flex-col gap-3 p-4 bg-muted/50 rounded-lg border">
+              <div className="grid gap-1.5">
+                <Label htmlFor="wager-amount">Wager (ytest.usd)</Label>
+                <Input id="wager-amount" type="number" min={1} value={wagerAmount} onChange={e => setWagerAmount(e.target.value)} />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="grid gap-1.5">
+                  <Label htmlFor="min-players">Min players</Label>
+                  <Input id="min-players" type="number" min={2} max={8} value={minPlayers} onChange={e => setMinPlayers(e.target.value)} />
+                </div>
+                <div className="grid gap-1.5">
+                  <Label htmlFor="max-players">Max players</Label>
+                  <Input id="max-players" type="number" min={2} max={8} value={maxPlayers} onChange={e => setMaxPlayers(e.target.value)} />
+                </div>
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="game-mode">Mode</Label>
+                <Select value={mode} onValueChange={value => setMode(value as GameModeId)}>
+                  <SelectTrigger id="game-mode" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GAME_MODE_IDS.map(id => (
+                      <SelectItem key={id} value={id}>{GAME_MODES[id].name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{GAME_MODES[mode].description}</p>
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="end-rule">On timeout</Label>
+                <Select value={endRule} onValueChange={value => setEndRule(value as EndRule)}>
+                  <SelectTrigger id="end-rule" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {END_RULES.map(rule => (
+                      <SelectItem key={rule} value={rule}>{END_RULE_LABELS[rule]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleCreate}>Create room</Button>
+            </div>
+          )}
+
+          {canPlay && privateMode === 'join' && (
+            <div className="flex gap-2 p-4 bg-muted/50 rounded-lg border">
+              <Input
+                placeholder="Invite code"
+                className="font-mono uppercase"
+                maxLength={6}
+                value={code}
+                onChange={e => setCode(e.target.value.toUpperCase())}
+              />
+              <Button onClick={() => onJoinByCode(code.trim())} disabled={code.trim().length === 0}>
+                Join
+              </Button>
+            </div>
+          )}
+
+          <Button variant="ghost" size="sm" onClick={onWatchReplay}>
+            Watch replay
+          </Button>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,67 @@
+import { useEffect } from 'react';
+import { useGame } from '@/contexts/GameContext';
+import { useSecondsLeft } from '@/lib/serverClock';
+import { MAX_TRAPS_PER_PLAYER, PVP_RANGE } from '@game/pvp';
+import { GAME_MODES } from '@game/gameModes';
+import type { Inventory } from '@/types/game';
+
+const KEYS = { shove: 'q', steal: 'r', trap: 't' };
+
+function formatCost(cost: Partial<Inventory>) {
+  return Object.entries(cost).map(([item, amount]) => `${amount} ${item}`).join(', ');
+}
+
+/** Shove, steal and trap controls; Q and R act on the nearest opponent in range, T plants a trap underfoot. */
+export function PvpPanel() {
+  const { players, playerId, inventory, traps, shoveReadyAt, stealReadyAt, mode, shove, steal, plantTrap } = useGame();
+  const trapCost = (mode ?? GAME_MODES.classic).costs.trap;
+  const shoveLeft = useSecondsLeft(shoveReadyAt);
+  const stealLeft = useSecondsLeft(stealReadyAt);
+
+  const me = players.find(p => p.id === playerId);
+  const busy = me?.currentAction !== 'idle';
+  let target: string | null = null;
+  let nearest = PVP_RANGE;
+  for (const p of players) {
+    if (!me || p.id === playerId || !p.connected) continue;
+    const d = Math.hypot(p.position.x - me.position.x, p.position.z - me.position.z);
+    if (d <= nearest) {
+      nearest = d;
+      target = p.id;
+    }
+  }
+
+  const canShove = !busy && target !== null && shoveLeft === 0;
+  const canSteal = !busy && target !== null && stealLeft === 0;
+  const canTrap = !busy && traps.length < MAX_TRAPS_PER_PLAYER
+    && Object.entries(trapCost).every(([item, amount]) => inventory[item as keyof Inventory] >= amount);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if (key === KEYS.shove && canShove && target) shove(target);
+      else if (key === KEYS.steal && canSteal && target) steal(target);
+      else if (key === KEYS.trap && canTrap) plantTrap();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const row = (key: string, label: string, enabled: boolean, detail: string) => (
+    <div className={`flex justify-between gap-3 ${enabled ? '' : 'opacity-50'}`}>
+      <span><span className="opacity-50">{key.toUpperCase()}</span> {label}</span>
+      <span className="text-xs opacity-70">{detail}</span>
+    </div>
+  );
+
+  return (
+    <div className="bg-black/70 backdrop-blur text-white p-3 rounded-lg text-sm pointer-events-auto">
+      <div className="font-bold mb-1 text-xs uppercase tracking-wide opacity-70">Rivals</div>
+      <div className="flex flex-col gap-0.5">
+        {row(KEYS.shove, 'Shove', canShove, shoveLeft > 0 ? `${shoveLeft}s` : target ? 'ready' : 'no one near')}
+        {row(KEYS.steal, 'Steal', canSteal, stealLeft > 0 ? `${stealLeft}s` : target ? 'ready' : 'no one near')}
+        {row(KEYS.trap, 'Trap', canTrap, `${formatCost(trapCost)} · ${traps.length}/${MAX_TRAPS_PER_PLAYER}`)}
+      </div>
+    </div>
+  );
+}
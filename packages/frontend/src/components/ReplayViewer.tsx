@@ -0,0 +1,153 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import * as THREE from 'three'
+import { Button } from "@/components/ui/button"
+import { Scene } from "@/components/three/Scene"
+import { loadReplay, replayFrameAt, type Replay } from '@/lib/replay'
+import { setReplayFrame } from '@/lib/replayStore'
+import { pushDigSpot, resetDigSpots } from '@/lib/digSpotsStore'
+
+const SPEEDS = [0.5, 1, 2, 4, 8]
+
+const formatTime = (ms: number) => {
+  const totalSec = Math.floor(ms / 1000)
+  const min = Math.floor(totalSec / 60)
+  const sec = totalSec % 60
+  return `${min}:${sec.toString().padStart(2, '0')}.${Math.floor(ms % 1000).toString().padStart(3, '0')}`
+}
+
+interface ReplayViewerProps {
+  onExit: () => void
+}
+
+export function ReplayViewer({ onExit }: ReplayViewerProps) {
+  const [replay, setReplay] = useState<Replay | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [time, setTime] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const playerRef = useRef<THREE.Group>(null)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setLoadError(null)
+    try {
+      const loaded = await loadReplay(file)
+      setReplay(loaded)
+      setTime(0)
+      setPlaying(false)
+    } catch (e) {
+      setLoadError(`Could not read replay: ${(e as Error).message}`)
+    }
+  }
+
+  // Advance the clock while playing
+  useEffect(() => {
+    if (!replay || !playing) return
+    let last = performance.now()
+    let raf = requestAnimationFrame(function step(now) {
+      const dt = (now - last) * speed
+      last = now
+      setTime(prev => {
+        const next = Math.min(prev + dt, replay.duration)
+        if (next >= replay.duration) setPlaying(false)
+        return next
+      })
+      raf = requestAnimationFrame(step)
+    })
+    return () => cancelAnimationFrame(raf)
+  }, [replay, playing, speed])
+
+  // Publish the frame for the scene, including dig holes in the terrain
+  useEffect(() => {
+    if (!replay) return
+    const frame = replayFrameAt(replay, time)
+    resetDigSpots()
+    for (const spot of frame.digSpots) pushDigSpot(spot.x, spot.z)
+    setReplayFrame(frame)
+  }, [replay, time])
+
+  useEffect(() => () => {
+    setReplayFrame(null)
+    resetDigSpots()
+  }, [])
+
+  const recentMoments = useMemo(
+    () => replay?.moments.filter(m => m.t <= time).slice(-6) ?? [],
+    [replay, time],
+  )
+
+  if (!replay) {
+    return (
+      <div className="flex items-center justify-center w-screen h-screen bg-slate-900">
+        <div className="bg-background p-6 rounded-2xl border shadow-2xl text-center max-w-sm flex flex-col gap-4">
+          <h2 className="text-2xl font-bold">Watch replay</h2>
+          <p className="text-sm text-muted-foreground">
+            Open a <span className="font-mono">.jsonl.gz</span> file saved by the game server.
+          </p>
+          <input
+            type="file"
+            accept=".gz,.jsonl"
+            className="text-sm"
+            onChange={e => handleFile(e.target.files?.[0])}
+          />
+          {loadError && <p className="text-sm text-destructive">{loadError}</p>}
+          <button className="text-sm text-muted-foreground underline" onClick={onExit}>
+            Back
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="w-screen h-screen relative bg-black">
+      <Scene seed={replay.header.seed} playerRef={playerRef} gameState="preview" replay />
+
+      <div className="absolute top-4 left-4 p-4 bg-background/80 backdrop-blur rounded-lg border shadow-sm max-w-sm">
+        <h1 className="text-lg font-bold mb-1">Replay {replay.header.roomId}</h1>
+        <p className="text-xs text-muted-foreground mb-2">
+          Seed {replay.header.seed} · {replay.header.players.length} players · started {new Date(replay.header.startedAt).toLocaleString()}
+        </p>
+        <ul className="text-xs flex flex-col gap-0.5">
+          {recentMoments.map((m, i) => (
+            <li key={i}>
+              <button className="font-mono text-primary underline mr-1" onClick={() => setTime(m.t)}>
+                {formatTime(m.t)}
+              </button>
+              {m.label}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[min(720px,90vw)] p-4 bg-background/90 backdrop-blur rounded-lg border shadow-sm flex flex-col gap-3">
+        <input
+          type="range"
+          min={0}
+          max={replay.duration}
+          step={1}
+          value={time}
+          onChange={e => setTime(Number(e.target.value))}
+          className="w-full"
+        />
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={() => {
+            if (time >= replay.duration) setTime(0)
+            setPlaying(!playing)
+          }}>
+            {playing ? 'Pause' : 'Play'}
+          </Button>
+          <span className="font-mono text-sm">{formatTime(time)} / {formatTime(replay.duration)}</span>
+          <div className="ml-auto flex gap-1">
+            {SPEEDS.map(s => (
+              <Button key={s} size="sm" variant={speed === s ? 'secondary' : 'outline'} onClick={() => setSpeed(s)}>
+                {s}x
+              </Button>
+            ))}
+          </div>
+          <Button size="sm" variant="outline" onClick={onExit}>Exit</Button>
+        </div>
+      </div>
+    </div>
+  )
+}
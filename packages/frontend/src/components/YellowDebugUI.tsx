@@ -5,10 +5,7 @@ import { useState, useEffect, useRef } from "react";
 import { Button } from "./ui/button";
 import { Card, CardHeader, CardTitle, CardContent } from "./ui/card";
 import * as THREE from "three";
-
-const BASE_SPEED = 4;
-const BASE_RUN_SPEED = 6;
-const BASE_DIG_MS = 3000;
+import { GAME_MODES } from "@game/gameModes";
 
 interface Props {
   playerRef?: React.RefObject<THREE.Group | null>;
@@ -17,7 +14,7 @@ interface Props {
 export function YellowDebugUI({ playerRef }: Props) {
   const { connect, isReady, isConnecting, balance, refreshBalance, requestFaucet } = useYellow();
   const { isConnected: isWalletConnected } = useAccount();
-  const { upgrades, phase } = useGame();
+  const { upgrades, phase, mode } = useGame();
   const [loading, setLoading] = useState(false);
   const [fps, setFps] = useState(0);
   const [pos, setPos] = useState({ x: 0, y: 0, z: 0 });
@@ -62,9 +59,10 @@ export function YellowDebugUI({ playerRef }: Props) {
     );
   }
 
-  const walkSpeed = (BASE_SPEED * upgrades.speedMultiplier).toFixed(1);
-  const runSpeed = (BASE_RUN_SPEED * upgrades.speedMultiplier).toFixed(1);
-  const digSpeed = (BASE_DIG_MS * upgrades.digMultiplier / 1000).toFixed(1);
+  const { movement, durations } = mode ?? GAME_MODES.classic;
+  const walkSpeed = (movement.walkSpeed * upgrades.speedMultiplier).toFixed(1);
+  const runSpeed = (movement.runSpeed * upgrades.speedMultiplier).toFixed(1);
+  const digSpeed = (durations.digMs * upgrades.digMultiplier / 1000).toFixed(1);
   const isPlaying = phase === 'playing' || phase === 'ended';
 
   return (
@@ -9,9 +9,22 @@ const INTERACTION_DISTANCE = 3;
 const WOOD_COLOR = new THREE.Color('#8B4513');
 const STONE_COLOR = new THREE.Color('#808080');
 const BERRY_COLOR = new THREE.Color('#FF6B6B');
+/** Ring colour of a node someone is harvesting, which nobody else can start on. */
+const WORKED_COLOR = new THREE.Color('#ffffff');
 
 const tempObject = new THREE.Object3D();
 
+/** Rich nodes are drawn larger with a taller beam. */
+const RICH_SCALE = 1.6;
+
+/** Nodes shrink as their charges are used up, down to this fraction of full size. */
+const MIN_CHARGE_SCALE = 0.6;
+
+function nodeScale(r: Resource) {
+  const fullness = MIN_CHARGE_SCALE + (1 - MIN_CHARGE_SCALE) * (r.charges / r.maxCharges);
+  return (r.rich ? RICH_SCALE : 1) * fullness;
+}
+
 const BEAM_HEIGHT = 8;
 const beamGeometry = new THREE.CylinderGeometry(0.08, 0.08, BEAM_HEIGHT, 6, 1, true);
 beamGeometry.translate(0, BEAM_HEIGHT / 2, 0);
@@ -78,14 +91,15 @@ function ResourceInstances({ resources, type }: { resources: Resource[]; type: R
   }, [type]);
 
   const ringMaterial = useMemo(() => {
+    // Tinted per instance, so working nodes can stand out
     return new THREE.MeshBasicMaterial({
-      color: beamColor,
+      color: '#ffffff',
       transparent: true,
       opacity: 0.8,
       side: THREE.DoubleSide,
       depthWrite: false,
     });
-  }, [type]);
+  }, []);
 
   useFrame((state) => {
     const mesh = meshRef.current;
@@ -102,24 +116,26 @@ function ResourceInstances({ resources, type }: { resources: Resource[]; type: R
       const y = -0.5 + Math.sin(t * 2 + r.position.x) * 0.1 + 0.5;
 
       tempObject.position.set(r.position.x, y, r.position.z);
+      const size = nodeScale(r);
       tempObject.rotation.set(0, t * 0.5 + i, 0);
-      tempObject.scale.set(1, 1, 1);
+      tempObject.scale.set(size, size, size);
       tempObject.updateMatrix();
       mesh.setMatrixAt(i, tempObject.matrix);
 
       if (ring) {
-        const s = 1 + Math.sin(t * 3 + i) * 0.15;
+        const s = (1 + Math.sin(t * 3 + i) * 0.15) * (r.rich ? RICH_SCALE : 1);
         tempObject.position.set(r.position.x, -0.3, r.position.z);
         tempObject.rotation.set(0, 0, 0);
         tempObject.scale.set(s, s, s);
         tempObject.updateMatrix();
         ring.setMatrixAt(i, tempObject.matrix);
+        ring.setColorAt(i, r.reservedBy ? WORKED_COLOR : beamColor);
       }
 
       if (beam) {
         tempObject.position.set(r.position.x, -0.5, r.position.z);
         tempObject.rotation.set(0, 0, 0);
-        tempObject.scale.set(1, 1, 1);
+        tempObject.scale.set(1, r.rich ? RICH_SCALE : 1, 1);
         tempObject.updateMatrix();
         beam.setMatrixAt(i, tempObject.matrix);
       }
@@ -127,6 +143,7 @@ function ResourceInstances({ resources, type }: { resources: Resource[]; type: R
     mesh.instanceMatrix.needsUpdate = true;
     if (ring) {
       ring.instanceMatrix.needsUpdate = true;
+      if (ring.instanceColor) ring.instanceColor.needsUpdate = true;
       ringMaterial.opacity = pulse;
     }
     if (beam) {
@@ -1,11 +1,16 @@
+import { useMemo } from 'react';
 import * as THREE from 'three';
 import { useGame } from '@/contexts/GameContext';
 import { RoomPhase } from '@/types/game';
-import type { Vec3 } from '@/types/game';
+import type { DigHeat, DigHint, Trap, Vec3 } from '@/types/game';
+import { TRAP_RADIUS } from '@game/pvp';
 import { OtherPlayers } from './OtherPlayers';
 import { GameResources } from './GameResources';
 
 const DIG_RADIUS = 1.5;
+const HOLE_Y = -0.48;
+// How far out from the hole a hint's bearing wedge reaches.
+const BEARING_LENGTH = 6;
 const tempObject = new THREE.Object3D();
 
 const holeGeometry = new THREE.CircleGeometry(DIG_RADIUS, 16);
@@ -18,11 +23,51 @@ const holeMaterial = new THREE.MeshBasicMaterial({
   depthWrite: false,
 });
 
-function DigSpots({ spots }: { spots: Vec3[] }) {
+const HEAT_COLORS: Record<DigHeat, string> = {
+  cold: '#4fa3ff',
+  warm: '#ffb347',
+  hot: '#ff4a3d',
+};
+
+const heatRingGeometry = new THREE.RingGeometry(DIG_RADIUS, DIG_RADIUS + 0.35, 24);
+heatRingGeometry.rotateX(-Math.PI / 2);
+
+/**
+ * A failed dig's hint drawn around its hole: a ring coloured by heat and,
+ * when the hint has a bearing, a wedge covering every direction the chest
+ * could lie in.
+ */
+function DigHintMarker({ position, hint }: { position: Vec3; hint: DigHint }) {
+  const color = HEAT_COLORS[hint.heat];
+  const error = hint.bearingError ?? 0;
+  const wedgeGeometry = useMemo(() => {
+    if (hint.bearing === undefined) return null;
+    const geometry = new THREE.RingGeometry(DIG_RADIUS + 0.5, DIG_RADIUS + BEARING_LENGTH, 16, 1, -error, error * 2);
+    // Lay it flat, then turn its centre line (local +x) toward the chest.
+    geometry.rotateX(-Math.PI / 2);
+    geometry.rotateY(-hint.bearing);
+    return geometry;
+  }, [hint.bearing, error]);
+
+  return (
+    <group position={[position.x, HOLE_Y + 0.01, position.z]}>
+      <mesh geometry={heatRingGeometry}>
+        <meshBasicMaterial color={color} transparent opacity={0.9} depthWrite={false} />
+      </mesh>
+      {wedgeGeometry && (
+        <mesh geometry={wedgeGeometry}>
+          <meshBasicMaterial color={color} transparent opacity={0.35} depthWrite={false} side={THREE.DoubleSide} />
+        </mesh>
+      )}
+    </group>
+  );
+}
+
+export function DigSpots({ spots, hints = [] }: { spots: Vec3[]; hints?: { position: Vec3; hint: DigHint }[] }) {
   const setInstances = (mesh: THREE.InstancedMesh | null) => {
     if (!mesh) return;
     for (let i = 0; i < spots.length; i++) {
-      tempObject.position.set(spots[i].x, -0.48, spots[i].z);
+      tempObject.position.set(spots[i].x, HOLE_Y, spots[i].z);
       tempObject.rotation.set(0, 0, 0);
       tempObject.scale.set(1, 1, 1);
       tempObject.updateMatrix();
@@ -34,24 +79,51 @@ function DigSpots({ spots }: { spots: Vec3[] }) {
   if (spots.length === 0) return null;
 
   return (
-    <instancedMesh key={spots.length} ref={setInstances} args={[holeGeometry, holeMaterial, spots.length]} />
+    <>
+      <instancedMesh key={spots.length} ref={setInstances} args={[holeGeometry, holeMaterial, spots.length]} />
+      {hints.map(({ position, hint }, i) => (
+        <DigHintMarker key={i} position={position} hint={hint} />
+      ))}
+    </>
+  );
+}
+
+const trapRingGeometry = new THREE.RingGeometry(TRAP_RADIUS - 0.15, TRAP_RADIUS, 32);
+trapRingGeometry.rotateX(-Math.PI / 2);
+
+const trapMaterial = new THREE.MeshBasicMaterial({
+  color: new THREE.Color('#b02a2a'),
+  transparent: true,
+  opacity: 0.6,
+  depthWrite: false,
+});
+
+/** The local player's own traps, drawn as the area a dig would spring them in. */
+function TrapMarkers({ traps }: { traps: Trap[] }) {
+  return (
+    <>
+      {traps.map(trap => (
+        <mesh key={trap.id} geometry={trapRingGeometry} material={trapMaterial} position={[trap.position.x, HOLE_Y + 0.02, trap.position.z]} />
+      ))}
+    </>
   );
 }
 
 export function MultiplayerLayer({ playerRef }: { playerRef: React.RefObject<THREE.Group | null> }) {
-  const { phase, players, playerId, resources, startHarvest, digSpots } = useGame();
+  const { phase, players, playerId, resources, startHarvest, digSpots, digHints, traps, pvpEvents } = useGame();
 
   if (phase !== RoomPhase.Playing) return null;
 
   return (
     <>
-      <OtherPlayers players={players} localPlayerId={playerId} />
+      <OtherPlayers players={players} localPlayerId={playerId} buffered events={pvpEvents} />
       <GameResources
         resources={resources}
         playerPosition={playerRef.current?.position ?? null}
         onHarvest={startHarvest}
       />
-      <DigSpots spots={digSpots} />
+      <DigSpots spots={digSpots} hints={digHints} />
+      <TrapMarkers traps={traps} />
     </>
   );
 }
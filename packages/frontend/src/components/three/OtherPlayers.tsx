@@ -4,13 +4,38 @@ import { useGLTF, useAnimations } from '@react-three/drei';
 import * as THREE from 'three';
 import { clone as skeletonClone } from 'three/examples/jsm/utils/SkeletonUtils.js';
 import type { PlayerState } from '@/types/game';
+import type { PvpEvent } from '@/contexts/GameContext';
+import { renderTime, sampleAt } from '@/lib/interpolation';
 
-function RemotePlayer({ player }: { player: PlayerState }) {
+// Per-second rates for easing toward unbuffered positions and turning to face the direction of travel
+const FOLLOW_RATE = 10;
+const TURN_RATE = 10;
+
+// A reaction to a shove, theft or trap overrides the player's animation this long
+const REACTION_MS = 1_000;
+const ONE_SHOT_ANIMATIONS = new Set(['Sword', 'Punch', 'HitReact', 'No']);
+
+interface Reaction { animation: string; at: number }
+
+/** The one-shot animation `event` gives `playerId`, if they took part in it. */
+function reactionTo(event: PvpEvent, playerId: string): string | null {
+  if (event.kind === 'trap') return event.playerId === playerId ? 'No' : null;
+  if (event.playerId === playerId) return event.kind === 'shove' ? 'Punch' : null;
+  if (event.targetId === playerId && (event.kind === 'shove' || event.item)) return 'HitReact';
+  return null;
+}
+
+/**
+ * With `buffered`, the player is drawn from the interpolation buffer fed by
+ * live snapshots; otherwise (replays) it eases toward `player.position`.
+ */
+function RemotePlayer({ player, buffered, reaction }: { player: PlayerState; buffered: boolean; reaction: Reaction | null }) {
   const groupRef = useRef<THREE.Group>(null);
   const modelRef = useRef<THREE.Group>(null);
   const targetPos = useRef(new THREE.Vector3(player.position.x, player.position.y, player.position.z));
   const smoothedSpeed = useRef(0);
   const lastFramePos = useRef(new THREE.Vector3(player.position.x, player.position.y, player.position.z));
+  const heading = useRef({ x: 0, z: 0 });
 
   const { scene, animations } = useGLTF('/pirate.gltf');
   const clonedScene = useMemo(() => skeletonClone(scene), [scene]);
@@ -25,7 +50,7 @@ function RemotePlayer({ player }: { player: PlayerState }) {
     const action = actions[animation];
     if (action) {
       action.reset().fadeIn(0.2).play();
-      if (animation === 'Sword') {
+      if (ONE_SHOT_ANIMATIONS.has(animation)) {
         action.setLoop(THREE.LoopOnce, 1);
         action.clampWhenFinished = true;
       }
@@ -37,26 +62,37 @@ function RemotePlayer({ player }: { player: PlayerState }) {
     if (!groupRef.current) return;
 
     const pos = groupRef.current.position;
-    pos.lerp(targetPos.current, 0.15);
-
-    // Compute speed from actual interpolated movement
-    const dx = pos.x - lastFramePos.current.x;
-    const dz = pos.z - lastFramePos.current.z;
-    const frameSpeed = delta > 0 ? Math.sqrt(dx * dx + dz * dz) / delta : 0;
-    smoothedSpeed.current += (frameSpeed - smoothedSpeed.current) * 0.1;
+    const state = buffered ? sampleAt(player.id, renderTime()) : null;
+    let speed: number;
+    if (state) {
+      pos.set(state.position.x, state.position.y, state.position.z);
+      speed = Math.hypot(state.velocity.x, state.velocity.z);
+      heading.current = state.velocity;
+    } else {
+      pos.lerp(targetPos.current, 1 - Math.exp(-FOLLOW_RATE * delta));
+      // Compute speed from actual interpolated movement
+      const dx = pos.x - lastFramePos.current.x;
+      const dz = pos.z - lastFramePos.current.z;
+      const frameSpeed = delta > 0 ? Math.sqrt(dx * dx + dz * dz) / delta : 0;
+      smoothedSpeed.current += (frameSpeed - smoothedSpeed.current) * 0.1;
+      speed = smoothedSpeed.current;
+      heading.current = { x: dx, z: dz };
+    }
     lastFramePos.current.copy(pos);
 
-    if (smoothedSpeed.current > 0.3 && modelRef.current) {
-      const angle = Math.atan2(dx, dz);
+    if (speed > 0.3 && modelRef.current) {
+      const angle = Math.atan2(heading.current.x, heading.current.z);
       let diff = angle - modelRef.current.rotation.y;
       while (diff < -Math.PI) diff += Math.PI * 2;
       while (diff > Math.PI) diff -= Math.PI * 2;
-      modelRef.current.rotation.y += diff * 0.15;
+      modelRef.current.rotation.y += diff * (1 - Math.exp(-TURN_RATE * delta));
     }
 
-    const speed = smoothedSpeed.current;
-    const nextAnim = player.currentAction === 'harvesting' ? 'Sword'
+    const nextAnim = reaction && Date.now() - reaction.at < REACTION_MS ? reaction.animation
+      : player.currentAction === 'harvesting' ? 'Sword'
       : player.currentAction === 'digging' ? 'Sword'
+      : player.currentAction === 'stealing' ? 'Punch'
+      : player.currentAction === 'planting' ? 'Duck'
       : speed > 3 ? 'Run'
       : speed > 0.5 ? 'Walk'
       : 'Idle';
@@ -73,13 +109,27 @@ function RemotePlayer({ player }: { player: PlayerState }) {
   );
 }
 
-export function OtherPlayers({ players, localPlayerId }: { players: PlayerState[]; localPlayerId: string | null }) {
+export function OtherPlayers({ players, localPlayerId, buffered = false, events = [] }: {
+  players: PlayerState[];
+  localPlayerId: string | null;
+  buffered?: boolean;
+  events?: PvpEvent[];
+}) {
   const remotePlayers = players.filter(p => p.id !== localPlayerId && p.connected);
 
+  // Latest reaction per player; events are oldest first.
+  const reactions = new Map<string, Reaction>();
+  for (const event of events) {
+    for (const player of remotePlayers) {
+      const animation = reactionTo(event, player.id);
+      if (animation) reactions.set(player.id, { animation, at: event.at });
+    }
+  }
+
   return (
     <>
       {remotePlayers.map(player => (
-        <RemotePlayer key={player.id} player={player} />
+        <RemotePlayer key={player.id} player={player} buffered={buffered} reaction={reactions.get(player.id) ?? null} />
       ))}
     </>
   );
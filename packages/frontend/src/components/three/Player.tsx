@@ -3,9 +3,13 @@ import { useFrame } from "@react-three/fiber"
 import { useKeyboardControls, useGLTF, useAnimations } from "@react-three/drei"
 import { RapierRigidBody, RigidBody, CapsuleCollider } from "@react-three/rapier"
 import * as THREE from "three"
+import { takeCorrection } from "@/lib/prediction"
+import { useGame } from "@/contexts/GameContext"
+import { GAME_MODES } from "@game/gameModes"
 
-const SPEED = 4
-const RUN_SPEED = 6
+// Server disagreements are blended in at this rate, unless too large to hide
+const BLEND_RATE = 10
+const BLEND_SNAP_DISTANCE = 3
 
 const direction = new THREE.Vector3()
 const frontVector = new THREE.Vector3()
@@ -25,7 +29,9 @@ export const Player = forwardRef<THREE.Group, { gameState: 'preview' | 'playing'
   const groupRef = useRef<THREE.Group>(null)
   const characterModelRef = useRef<THREE.Group>(null)
   const isJumpPressed = useRef(false)
+  const blendRemaining = useRef({ x: 0, z: 0 })
   const [, getKeys] = useKeyboardControls()
+  const { mode } = useGame()
 
   // Load character model
   const { scene, animations } = useGLTF("/pirate.gltf")
@@ -75,6 +81,27 @@ export const Player = forwardRef<THREE.Group, { gameState: 'preview' | 'playing'
 
     if (!rb.current || !groupRef.current) return
 
+    // Reconcile with the server: snap back after a rejected move, otherwise
+    // ease the disagreement out over a few frames
+    const correction = takeCorrection()
+    if (correction?.kind === 'snap') {
+      blendRemaining.current = { x: 0, z: 0 }
+      rb.current.setTranslation(correction.position, true)
+      rb.current.setLinvel({ x: 0, y: 0, z: 0 }, true)
+    } else if (correction) {
+      blendRemaining.current.x += correction.offset.x
+      blendRemaining.current.z += correction.offset.z
+    }
+    const remaining = blendRemaining.current
+    if (remaining.x !== 0 || remaining.z !== 0) {
+      const t = rb.current.translation()
+      const distance = Math.hypot(remaining.x, remaining.z)
+      const step = distance > BLEND_SNAP_DISTANCE || distance < 0.01 ? 1 : 1 - Math.exp(-BLEND_RATE * delta)
+      rb.current.setTranslation({ x: t.x + remaining.x * step, y: t.y, z: t.z + remaining.z * step }, true)
+      remaining.x -= remaining.x * step
+      remaining.z -= remaining.z * step
+    }
+
     const { forward, backward, left, right, jump, run, action } = getKeys()
 
     // Sync group position with physics for external ref access
@@ -126,7 +153,8 @@ export const Player = forwardRef<THREE.Group, { gameState: 'preview' | 'playing'
       direction.normalize()
     }
     
-    const currentSpeed = run ? RUN_SPEED : SPEED
+    const { walkSpeed, runSpeed } = (mode ?? GAME_MODES.classic).movement
+    const currentSpeed = run ? runSpeed : walkSpeed
     targetVelocity.copy(direction).multiplyScalar(currentSpeed)
     
     // Character rotation
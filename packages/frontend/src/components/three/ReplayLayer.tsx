@@ -0,0 +1,26 @@
+import { useReplayFrame } from '@/lib/replayStore';
+import { OtherPlayers } from './OtherPlayers';
+import { GameResources } from './GameResources';
+import { DigSpots } from './MultiplayerLayer';
+
+const noop = () => {};
+
+/** Draws the recorded match state the ReplayViewer is currently showing. */
+export function ReplayLayer() {
+  const frame = useReplayFrame();
+  if (!frame) return null;
+
+  return (
+    <>
+      <OtherPlayers players={frame.players} localPlayerId={null} />
+      <GameResources resources={frame.resources} playerPosition={null} onHarvest={noop} />
+      <DigSpots spots={frame.digSpots} />
+      {frame.chest && (
+        <mesh position={[frame.chest.position.x, 0.5, frame.chest.position.z]} castShadow>
+          <boxGeometry args={[1.6, 1, 1]} />
+          <meshStandardMaterial color="#d4a017" metalness={0.6} roughness={0.3} />
+        </mesh>
+      )}
+    </>
+  );
+}
@@ -6,6 +6,7 @@ import * as THREE from "three"
 import * as BufferGeometryUtils from 'three/examples/jsm/utils/BufferGeometryUtils.js'
 import { Player } from "./Player"
 import { MultiplayerLayer } from "./MultiplayerLayer"
+import { ReplayLayer } from "./ReplayLayer"
 import { digSpotsArray, digSpotsCount } from "@/lib/digSpotsStore"
 
 // Simple pseudo-random generator based on seed
@@ -2096,9 +2097,11 @@ interface SceneProps {
   playerRef: React.RefObject<THREE.Group | null>
   gameState: 'preview' | 'playing'
   onAction?: (x: number, y: number, z: number) => void
+  /** Show the recorded match from the replay store instead of the live one. */
+  replay?: boolean
 }
 
-export const Scene = memo(function Scene({ seed, playerRef, gameState, onAction }: SceneProps) {
+export const Scene = memo(function Scene({ seed, playerRef, gameState, onAction, replay = false }: SceneProps) {
   const [rockData, setRockData] = useState<{ x: number, z: number, radius: number }[]>([])
   const [palmData, setPalmData] = useState<{ x: number, z: number, radius: number }[]>([])
 
@@ -2153,7 +2156,7 @@ export const Scene = memo(function Scene({ seed, playerRef, gameState, onAction
         
         <Physics gravity={[0, -9.81, 0]} interpolate={true}>
           <Player ref={playerRef} gameState={gameState} onAction={onAction} />
-          <MultiplayerLayer playerRef={playerRef} />
+          {replay ? <ReplayLayer /> : <MultiplayerLayer playerRef={playerRef} />}
           
           <IslandGround seed={seed} gameState={gameState} />
           <Ocean />
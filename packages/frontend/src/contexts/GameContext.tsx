@@ -1,67 +1,145 @@
 import { createContext, useContext, useState, useRef, useCallback, useEffect, useMemo, type ReactNode } from 'react';
-import { useAccount } from 'wagmi';
+import { useAccount, useSignMessage } from 'wagmi';
 import { useYellow } from './YellowContext';
 import type {
-  Vec3, PlayerState, Resource, Inventory, PlayerUpgrades,
-  ServerMsg, ClientMsg,
+  Vec3, PlayerState, Resource, Inventory, PlayerUpgrades, RoomSettings, GameMode, DigHint, Trap,
+  ServerMsg, ClientMsg, MatchmakingStatusMsg,
 } from '@/types/game';
 import {
   RoomPhase, ClientMsgType, ServerMsgType,
 } from '@/types/game';
 import { pushDigSpot, resetDigSpots } from '@/lib/digSpotsStore';
+import { acknowledge, correct, nextPositionUpdate, resetPrediction } from '@/lib/prediction';
+import { forgetPlayer, pushSnapshot, resetInterpolation } from '@/lib/interpolation';
+import { serverClock } from '@/lib/serverClock';
+import { applyPlayersDelta } from '@/lib/playersSync';
+import { buildAuthMessage } from '@game/auth';
+import {
+  PROTOCOL_VERSION, VERSION_MISMATCH_CLOSE_CODE, decodeMessage, encodeMessage, offeredEncodings,
+  type WireEncoding,
+} from '@game/codec';
+import type { RecipeId } from '@game/recipes';
 
 const WS_URL = 'ws://localhost:3002';
+// Set VITE_WIRE_ENCODING=json to see readable frames in devtools.
+const WIRE_ENCODING: string | undefined = import.meta.env.VITE_WIRE_ENCODING;
 const POSITION_INTERVAL = 50;
-const PING_INTERVAL = 10000;
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 8000;
+const RECONNECT_MAX_ATTEMPTS = 6;
+
+export type GamePhase = RoomPhase | 'disconnected' | 'connecting' | 'authenticating' | 'matchmaking' | 'wager_pending' | 'reconnecting';
+
+/**
+ * Something one player did to another, kept briefly for animations and the
+ * HUD. For traps, `playerId` sprang the trap `targetId` planted.
+ */
+export interface PvpEvent {
+  id: number;
+  kind: 'shove' | 'steal' | 'trap';
+  playerId: string;
+  targetId: string;
+  /** What a steal took; null if it came away empty. */
+  item?: keyof Inventory | null;
+  /** Local time (ms) it happened. */
+  at: number;
+}
 
-export type GamePhase = RoomPhase | 'disconnected' | 'connecting' | 'wager_pending';
+const MAX_PVP_EVENTS = 10;
 
 interface GameContextType {
   phase: GamePhase;
   playerId: string | null;
   roomId: string | null;
+  inviteCode: string | null;
+  roomSettings: RoomSettings | null;
+  /** Rules of the joined room, sent in RoomJoined. */
+  mode: GameMode | null;
+  matchmaking: MatchmakingStatusMsg | null;
   seed: number | null;
   players: PlayerState[];
   resources: Resource[];
   inventory: Inventory;
   upgrades: PlayerUpgrades;
-  countdown: number;
+  /** Local times (ms) of server deadlines, converted with the synced server clock. */
+  countdownEndsAt: number | null;
+  gameEndsAt: number | null;
+  /** When the local player's harvest or dig completes. */
+  actionEndsAt: number | null;
+  /** Round trip to the game server in ms, null until measured. */
+  ping: number | null;
   mapHint: { center: Vec3; radius: number } | null;
   digSpots: Vec3[];
+  /** What each of the local player's failed digs said about the chest. */
+  digHints: { position: Vec3; hint: DigHint }[];
+  /** The local player's traps that have not sprung yet. */
+  traps: Trap[];
+  /** Local times the local player may next shove and steal. */
+  shoveReadyAt: number | null;
+  stealReadyAt: number | null;
+  /** Recent shoves, steals and sprung traps, oldest first. */
+  pvpEvents: PvpEvent[];
   winner: string | null;
   winReason: string | null;
   payoutAmount: number | null;
   error: string | null;
-  joinGame: () => void;
+  /** Joins the private room with `code`, or queues at the default tier when omitted. */
+  joinGame: (code?: string) => void;
+  findMatch: (tier: number) => void;
+  createPrivateGame: (settings: Partial<RoomSettings>) => void;
   sendPosition: (x: number, y: number, z: number) => void;
   startHarvest: (resourceId: string) => void;
   startDig: (x: number, y: number, z: number) => void;
+  craft: (recipeId: RecipeId) => void;
+  shove: (targetId: string) => void;
+  steal: (targetId: string) => void;
+  plantTrap: () => void;
   leaveGame: () => void;
 }
 
 const defaultInventory: Inventory = { wood: 0, stone: 0, berry: 0 };
-const defaultUpgrades: PlayerUpgrades = { speedMultiplier: 1, digMultiplier: 1, hasMap: false, digUpgradesTaken: 0 };
+const defaultUpgrades: PlayerUpgrades = {
+  speedMultiplier: 1, digMultiplier: 1, hasMap: false, digUpgradesTaken: 0, boots: 0, mapFragments: 0, torches: 0,
+};
 
 const GameContext = createContext<GameContextType>({
   phase: 'disconnected',
   playerId: null,
   roomId: null,
+  inviteCode: null,
+  roomSettings: null,
+  mode: null,
+  matchmaking: null,
   seed: null,
   players: [],
   resources: [],
   inventory: defaultInventory,
   upgrades: defaultUpgrades,
-  countdown: 0,
+  countdownEndsAt: null,
+  gameEndsAt: null,
+  actionEndsAt: null,
+  ping: null,
   mapHint: null,
   digSpots: [],
+  digHints: [],
+  traps: [],
+  shoveReadyAt: null,
+  stealReadyAt: null,
+  pvpEvents: [],
   winner: null,
   winReason: null,
   payoutAmount: null,
   error: null,
   joinGame: () => {},
+  findMatch: () => {},
+  createPrivateGame: () => {},
   sendPosition: () => {},
   startHarvest: () => {},
   startDig: () => {},
+  craft: () => {},
+  shove: () => {},
+  steal: () => {},
+  plantTrap: () => {},
   leaveGame: () => {},
 });
 
@@ -69,26 +147,55 @@ export const useGame = () => useContext(GameContext);
 
 export const GameProvider = ({ children }: { children: ReactNode }) => {
   const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
   const yellow = useYellow();
 
   const wsRef = useRef<WebSocket | null>(null);
-  const pingRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Until the server's Welcome picks an encoding, everything is JSON.
+  const encodingRef = useRef<WireEncoding>('json');
+  const pingRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const lastPositionSend = useRef(0);
   const playerIdRef = useRef<string | null>(null);
+  const roomIdRef = useRef<string | null>(null);
+  // Room whose wager we already transferred, so a resumed lobby never pays twice.
+  const paidRoomRef = useRef<string | null>(null);
+  const resumeTokenRef = useRef<string | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const connectRef = useRef<() => void>(() => {});
+  // Sent once the server accepts our signature: CreateRoom, JoinRoom or FindMatch.
+  const roomRequestRef = useRef<ClientMsg>({ type: ClientMsgType.JoinRoom });
+  // Player snapshots by seq, kept until the server stops basing deltas on them.
+  const snapshotsRef = useRef(new Map<number, PlayerState[]>());
+  // Where our dig in progress is, to place the hint its DigComplete carries.
+  const digPositionRef = useRef<Vec3 | null>(null);
+  const pvpEventIdRef = useRef(0);
   const yellowRef = useRef(yellow);
   yellowRef.current = yellow;
 
   const [phase, setPhase] = useState<GamePhase>('disconnected');
   const [playerId, setPlayerId] = useState<string | null>(null);
   const [roomId, setRoomId] = useState<string | null>(null);
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+  const [roomSettings, setRoomSettings] = useState<RoomSettings | null>(null);
+  const [mode, setMode] = useState<GameMode | null>(null);
+  const [matchmaking, setMatchmaking] = useState<MatchmakingStatusMsg | null>(null);
   const [seed, setSeed] = useState<number | null>(null);
   const [players, setPlayers] = useState<PlayerState[]>([]);
   const [resources, setResources] = useState<Resource[]>([]);
   const [inventory, setInventory] = useState<Inventory>(defaultInventory);
   const [upgrades, setUpgrades] = useState<PlayerUpgrades>(defaultUpgrades);
-  const [countdown, setCountdown] = useState(0);
+  const [countdownEndsAt, setCountdownEndsAt] = useState<number | null>(null);
+  const [gameEndsAt, setGameEndsAt] = useState<number | null>(null);
+  const [actionEndsAt, setActionEndsAt] = useState<number | null>(null);
+  const [ping, setPing] = useState<number | null>(null);
   const [mapHint, setMapHint] = useState<{ center: Vec3; radius: number } | null>(null);
   const [digSpots, setDigSpots] = useState<Vec3[]>([]);
+  const [digHints, setDigHints] = useState<{ position: Vec3; hint: DigHint }[]>([]);
+  const [traps, setTraps] = useState<Trap[]>([]);
+  const [shoveReadyAt, setShoveReadyAt] = useState<number | null>(null);
+  const [stealReadyAt, setStealReadyAt] = useState<number | null>(null);
+  const [pvpEvents, setPvpEvents] = useState<PvpEvent[]>([]);
   const [winner, setWinner] = useState<string | null>(null);
   const [winReason, setWinReason] = useState<string | null>(null);
   const [payoutAmount, setPayoutAmount] = useState<number | null>(null);
@@ -96,33 +203,149 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
 
   const send = useCallback((msg: ClientMsg) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify(msg));
+      wsRef.current.send(encodeMessage(msg, encodingRef.current));
     }
   }, []);
 
+  const closeSocket = useCallback(() => {
+    if (pingRef.current) clearTimeout(pingRef.current);
+    pingRef.current = null;
+    const ws = wsRef.current;
+    wsRef.current = null;
+    if (ws) {
+      ws.onclose = null;
+      ws.onerror = null;
+      ws.close();
+    }
+  }, []);
+
+  const resetMatchState = useCallback(() => {
+    setPlayerId(null);
+    playerIdRef.current = null;
+    setRoomId(null);
+    roomIdRef.current = null;
+    setInviteCode(null);
+    setRoomSettings(null);
+    setMode(null);
+    setMatchmaking(null);
+    setSeed(null);
+    setPlayers([]);
+    snapshotsRef.current.clear();
+    resetInterpolation();
+    setResources([]);
+    setInventory(defaultInventory);
+    setUpgrades(defaultUpgrades);
+    setCountdownEndsAt(null);
+    setGameEndsAt(null);
+    setActionEndsAt(null);
+    setMapHint(null);
+    setDigSpots([]);
+    setDigHints([]);
+    digPositionRef.current = null;
+    resetDigSpots();
+    setTraps([]);
+    setShoveReadyAt(null);
+    setStealReadyAt(null);
+    setPvpEvents([]);
+    setWinner(null);
+    setWinReason(null);
+    setPayoutAmount(null);
+  }, []);
+
+  // Pings quickly at first so the clock estimate settles, then slowly as a keepalive.
+  const startPinging = useCallback(() => {
+    pingRef.current = setTimeout(function ping() {
+      send({ type: ClientMsgType.Ping, t: serverClock.stamp(), rtt: serverClock.rtt ?? undefined });
+      pingRef.current = setTimeout(ping, serverClock.nextPingDelay());
+    }, 0);
+  }, [send]);
+
+  const pushPvpEvent = useCallback((event: Omit<PvpEvent, 'id' | 'at'>) => {
+    const next = { ...event, id: ++pvpEventIdRef.current, at: Date.now() };
+    setPvpEvents(prev => [...prev.slice(1 - MAX_PVP_EVENTS), next]);
+  }, []);
+
   const handleMessage = useCallback((msg: ServerMsg) => {
     switch (msg.type) {
+      case ServerMsgType.Welcome:
+        encodingRef.current = msg.encoding;
+        startPinging();
+        break;
+
+      case ServerMsgType.AuthChallenge:
+        if (resumeTokenRef.current) {
+          send({ type: ClientMsgType.ResumeSession, token: resumeTokenRef.current });
+          break;
+        }
+        if (!address) break;
+        setPhase('authenticating');
+        signMessageAsync({ message: buildAuthMessage(msg.nonce) })
+          .then(signature => send({ type: ClientMsgType.Authenticate, address, signature }))
+          .catch((e: Error) => setError(`Signature rejected: ${e.message}`));
+        break;
+
+      case ServerMsgType.Authenticated:
+        if (!resumeTokenRef.current) send(roomRequestRef.current);
+        break;
+
+      case ServerMsgType.MatchmakingStatus:
+        setMatchmaking(msg);
+        if (msg.state === 'searching' || msg.state === 'matched') {
+          setPhase('matchmaking');
+        } else {
+          closeSocket();
+          setPhase('disconnected');
+          if (msg.state === 'timed_out') setError('No match found, try again or pick another tier');
+        }
+        break;
+
+      case ServerMsgType.ResumeFailed:
+        resumeTokenRef.current = null;
+        closeSocket();
+        resetMatchState();
+        setPhase('disconnected');
+        setError(`Could not rejoin the game: ${msg.reason}`);
+        break;
+
       case ServerMsgType.RoomJoined:
+        setMatchmaking(null);
+        resumeTokenRef.current = msg.resumeToken;
+        reconnectAttemptRef.current = 0;
+        roomIdRef.current = msg.roomId;
+        setError(null);
         setRoomId(msg.roomId);
+        setInviteCode(msg.inviteCode);
+        setRoomSettings(msg.settings);
+        setMode(msg.mode);
         setPlayerId(msg.playerId);
         playerIdRef.current = msg.playerId;
+        snapshotsRef.current.clear();
         setPlayers(msg.players);
         setPhase(msg.phase as RoomPhase);
         break;
 
-      case ServerMsgType.WagerRequired:
+      case ServerMsgType.WagerRequired: {
         setPhase('wager_pending');
-        yellowRef.current.transferTo(msg.serverAddress, msg.amount)
-          .then(() => send({ type: ClientMsgType.WagerConfirmed }))
+        const room = roomIdRef.current;
+        if (room && paidRoomRef.current === room) {
+          send({ type: ClientMsgType.WagerConfirmed });
+          break;
+        }
+        yellowRef.current.transferTo(msg.serverAddress, msg.amount, msg.asset)
+          .then(() => {
+            paidRoomRef.current = room;
+            send({ type: ClientMsgType.WagerConfirmed });
+          })
           .catch((e: Error) => setError(`Wager failed: ${e.message}`));
         break;
+      }
 
       case ServerMsgType.WagerAccepted:
         setPhase(RoomPhase.Lobby);
         break;
 
       case ServerMsgType.GameStarting:
-        setCountdown(msg.countdown);
+        setCountdownEndsAt(serverClock.toLocal(msg.startsAt));
         break;
 
       case ServerMsgType.GameStarted:
@@ -131,56 +354,132 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
         setPhase(RoomPhase.Playing);
         setInventory(defaultInventory);
         setUpgrades(defaultUpgrades);
-        setCountdown(0);
+        setCountdownEndsAt(null);
+        setGameEndsAt(serverClock.toLocal(msg.endsAt));
+        resetPrediction();
+        resetInterpolation();
         break;
 
-      case ServerMsgType.PlayerMoved:
-        setPlayers(prev =>
-          prev.map(p => p.id === msg.playerId ? { ...p, position: msg.position } : p)
-        );
+      case ServerMsgType.SessionResumed:
+        setInventory(msg.inventory);
+        setUpgrades(msg.upgrades);
+        setTraps(msg.traps);
         break;
 
       case ServerMsgType.PlayersSync:
+        snapshotsRef.current.set(msg.seq, msg.players);
+        pushSnapshot(msg.serverTime, msg.players);
         setPlayers(msg.players);
+        send({ type: ClientMsgType.SyncAck, seq: msg.seq });
+        break;
+
+      case ServerMsgType.PlayersDelta: {
+        const snapshots = snapshotsRef.current;
+        const base = snapshots.get(msg.baseSeq);
+        if (!base) break;
+        const next = applyPlayersDelta(base, msg);
+        // The server only bases deltas on what we acked, which is never older than baseSeq again.
+        for (const seq of snapshots.keys()) {
+          if (seq < msg.baseSeq) snapshots.delete(seq);
+        }
+        snapshots.set(msg.seq, next);
+        pushSnapshot(msg.serverTime, next);
+        for (const id of msg.removed) forgetPlayer(id);
+        setPlayers(next);
+        send({ type: ClientMsgType.SyncAck, seq: msg.seq });
+        break;
+      }
+
+      case ServerMsgType.PositionAck:
+        acknowledge(msg.seq, msg.position);
+        break;
+
+      case ServerMsgType.PositionCorrection:
+        correct(msg.correction, msg.position);
         break;
 
       case ServerMsgType.HarvestStarted:
+        setResources(prev =>
+          prev.map(r => r.id === msg.resourceId ? { ...r, reservedBy: msg.playerId } : r)
+        );
         setPlayers(prev =>
           prev.map(p => p.id === msg.playerId ? { ...p, currentAction: 'harvesting' as const } : p)
         );
+        if (msg.playerId === playerIdRef.current) setActionEndsAt(serverClock.toLocal(msg.endsAt));
         break;
 
       case ServerMsgType.HarvestComplete:
         setResources(prev =>
-          prev.map(r => r.id === msg.resourceId ? { ...r, harvested: true } : r)
+          prev.map(r => r.id === msg.resourceId
+            ? { ...r, charges: msg.charges, harvested: msg.charges === 0, respawnsAt: msg.respawnsAt, reservedBy: undefined }
+            : r)
         );
         if (msg.playerId === playerIdRef.current) {
           setInventory(msg.inventory);
           setUpgrades(msg.upgrades);
+          setActionEndsAt(null);
         }
         setPlayers(prev =>
           prev.map(p => p.id === msg.playerId ? { ...p, currentAction: 'idle' as const } : p)
         );
         break;
 
+      case ServerMsgType.HarvestCancelled:
+        setResources(prev =>
+          prev.map(r => r.id === msg.resourceId ? { ...r, reservedBy: undefined } : r)
+        );
+        if (msg.playerId === playerIdRef.current) setActionEndsAt(null);
+        setPlayers(prev =>
+          prev.map(p => p.id === msg.playerId ? { ...p, currentAction: 'idle' as const } : p)
+        );
+        break;
+
+      case ServerMsgType.ResourceUpdated:
+        setResources(prev =>
+          prev.map(r => r.id === msg.resourceId
+            ? { ...r, charges: msg.charges, harvested: msg.charges === 0, respawnsAt: msg.respawnsAt, reservedBy: undefined }
+            : r)
+        );
+        break;
+
+      case ServerMsgType.ResourceRespawned:
+        setResources(prev =>
+          prev.map(r => r.id === msg.resourceId
+            ? { ...r, charges: msg.charges, harvested: false, respawnsAt: undefined }
+            : r)
+        );
+        break;
+
       case ServerMsgType.DigStarted:
         setPlayers(prev =>
           prev.map(p => p.id === msg.playerId ? { ...p, currentAction: 'digging' as const } : p)
         );
         setDigSpots(prev => [...prev, msg.position]);
         pushDigSpot(msg.position.x, msg.position.z);
+        if (msg.playerId === playerIdRef.current) {
+          setActionEndsAt(serverClock.toLocal(msg.endsAt));
+          digPositionRef.current = msg.position;
+        }
         break;
 
       case ServerMsgType.DigComplete:
         setPlayers(prev =>
           prev.map(p => p.id === msg.playerId ? { ...p, currentAction: 'idle' as const } : p)
         );
+        if (msg.playerId === playerIdRef.current) {
+          setActionEndsAt(null);
+          const position = digPositionRef.current;
+          const hint = msg.hint;
+          if (position && hint) setDigHints(prev => [...prev, { position, hint }]);
+          digPositionRef.current = null;
+        }
         break;
 
       case ServerMsgType.ChestFound:
         break;
 
       case ServerMsgType.GameEnded:
+        resumeTokenRef.current = null;
         setWinner(msg.winnerId);
         setWinReason(msg.reason);
         setPhase(RoomPhase.Ended);
@@ -190,23 +489,92 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
         setPayoutAmount(msg.amount);
         break;
 
+      case ServerMsgType.PayoutFailed:
+        setError(msg.message);
+        break;
+
       case ServerMsgType.PlayerLeft:
+        forgetPlayer(msg.playerId);
         setPlayers(prev => prev.filter(p => p.id !== msg.playerId));
         break;
 
-      case ServerMsgType.UpgradeUnlocked:
+      case ServerMsgType.CraftStarted:
+        setPlayers(prev =>
+          prev.map(p => p.id === msg.playerId ? { ...p, currentAction: 'crafting' as const } : p)
+        );
+        if (msg.playerId === playerIdRef.current) setActionEndsAt(serverClock.toLocal(msg.endsAt));
+        break;
+
+      case ServerMsgType.CraftComplete:
+        setPlayers(prev =>
+          prev.map(p => p.id === msg.playerId ? { ...p, currentAction: 'idle' as const } : p)
+        );
         if (msg.playerId === playerIdRef.current) {
-          setUpgrades(prev => {
-            switch (msg.upgrade) {
-              case 'speed': return { ...prev, speedMultiplier: prev.speedMultiplier + 0.2 };
-              case 'dig_speed': return { ...prev, digMultiplier: prev.digMultiplier + 0.2, digUpgradesTaken: prev.digUpgradesTaken + 1 };
-              case 'map': return { ...prev, hasMap: true };
-              default: return prev;
-            }
-          });
+          setInventory(msg.inventory);
+          setUpgrades(msg.upgrades);
+          setActionEndsAt(null);
         }
         break;
 
+      case ServerMsgType.PlayerShoved:
+        setPlayers(prev =>
+          prev.map(p => p.id === msg.targetId ? { ...p, currentAction: 'idle' as const } : p)
+        );
+        if (msg.playerId === playerIdRef.current) setShoveReadyAt(serverClock.toLocal(msg.cooldownEndsAt));
+        if (msg.targetId === playerIdRef.current) {
+          setActionEndsAt(null);
+          digPositionRef.current = null;
+        }
+        pushPvpEvent({ kind: 'shove', playerId: msg.playerId, targetId: msg.targetId });
+        break;
+
+      case ServerMsgType.StealStarted:
+        setPlayers(prev =>
+          prev.map(p => p.id === msg.playerId ? { ...p, currentAction: 'stealing' as const } : p)
+        );
+        if (msg.playerId === playerIdRef.current) {
+          setActionEndsAt(serverClock.toLocal(msg.endsAt));
+          setStealReadyAt(serverClock.toLocal(msg.cooldownEndsAt));
+        }
+        break;
+
+      case ServerMsgType.ItemStolen:
+        setPlayers(prev =>
+          prev.map(p => p.id === msg.playerId ? { ...p, currentAction: 'idle' as const } : p)
+        );
+        if (msg.playerId === playerIdRef.current) {
+          setInventory(msg.inventory);
+          setActionEndsAt(null);
+        }
+        if (msg.targetId === playerIdRef.current) setInventory(msg.targetInventory);
+        pushPvpEvent({ kind: 'steal', playerId: msg.playerId, targetId: msg.targetId, item: msg.item });
+        break;
+
+      case ServerMsgType.TrapStarted:
+        setPlayers(prev =>
+          prev.map(p => p.id === msg.playerId ? { ...p, currentAction: 'planting' as const } : p)
+        );
+        if (msg.playerId === playerIdRef.current) setActionEndsAt(serverClock.toLocal(msg.endsAt));
+        break;
+
+      case ServerMsgType.TrapPlanted:
+        setPlayers(prev =>
+          prev.map(p => p.id === msg.trap.ownerId ? { ...p, currentAction: 'idle' as const } : p)
+        );
+        setTraps(prev => [...prev, msg.trap]);
+        setInventory(msg.inventory);
+        setActionEndsAt(null);
+        break;
+
+      case ServerMsgType.TrapTriggered:
+        setTraps(prev => prev.filter(t => t.id !== msg.trap.id));
+        pushPvpEvent({ kind: 'trap', playerId: msg.playerId, targetId: msg.trap.ownerId });
+        break;
+
+      case ServerMsgType.TrapRemoved:
+        setTraps(prev => prev.filter(t => t.id !== msg.trapId));
+        break;
+
       case ServerMsgType.MapRevealed:
         setMapHint({ center: msg.center, radius: msg.radius });
         break;
@@ -216,60 +584,104 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
         break;
 
       case ServerMsgType.Pong:
+        serverClock.onPong(msg.t, msg.serverTime);
+        setPing(serverClock.rtt);
         break;
     }
-  }, [send]);
+  }, [send, address, signMessageAsync, closeSocket, resetMatchState, startPinging, pushPvpEvent]);
 
   const cleanup = useCallback(() => {
-    if (pingRef.current) clearInterval(pingRef.current);
-    wsRef.current?.close();
-    wsRef.current = null;
-    pingRef.current = null;
-  }, []);
-
-  const joinGame = useCallback(() => {
-    if (!address || wsRef.current) return;
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    reconnectTimerRef.current = null;
+    resumeTokenRef.current = null;
+    closeSocket();
+  }, [closeSocket]);
+
+  // While we hold a resume token the server keeps our seat, so a dropped
+  // socket is retried with exponential backoff instead of ending the match.
+  const handleDrop = useCallback((failed: boolean) => {
+    closeSocket();
+    const attempt = reconnectAttemptRef.current;
+    if (resumeTokenRef.current && attempt < RECONNECT_MAX_ATTEMPTS) {
+      reconnectAttemptRef.current = attempt + 1;
+      setPhase('reconnecting');
+      const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempt, RECONNECT_MAX_MS);
+      reconnectTimerRef.current = setTimeout(() => {
+        reconnectTimerRef.current = null;
+        connectRef.current();
+      }, delay);
+      return;
+    }
 
-    setPhase('connecting');
-    setError(null);
-    setWinner(null);
-    setWinReason(null);
-    setPayoutAmount(null);
+    const wasResuming = resumeTokenRef.current !== null;
+    resumeTokenRef.current = null;
+    setPhase('disconnected');
+    if (wasResuming) {
+      setError('Lost connection to the game');
+    } else if (failed) {
+      setError('Connection to game server failed');
+    }
+  }, [closeSocket]);
 
+  const connect = useCallback(() => {
     const ws = new WebSocket(WS_URL);
+    ws.binaryType = 'arraybuffer';
     wsRef.current = ws;
+    encodingRef.current = 'json';
 
     ws.onopen = () => {
-      send({ type: ClientMsgType.JoinRoom, address });
-      pingRef.current = setInterval(() => {
-        send({ type: ClientMsgType.Ping, t: Date.now() });
-      }, PING_INTERVAL);
+      send({ type: ClientMsgType.Hello, version: PROTOCOL_VERSION, encodings: offeredEncodings(WIRE_ENCODING) });
     };
 
     ws.onmessage = (event) => {
       try {
-        const msg: ServerMsg = JSON.parse(event.data);
-        handleMessage(msg);
+        handleMessage(decodeMessage<ServerMsg>(event.data));
       } catch {}
     };
 
-    ws.onclose = () => {
-      cleanup();
-      setPhase('disconnected');
+    ws.onclose = (event) => {
+      // The server already explained the mismatch in an Error; retrying cannot help.
+      if (event.code === VERSION_MISMATCH_CLOSE_CODE) resumeTokenRef.current = null;
+      handleDrop(false);
     };
+    ws.onerror = () => handleDrop(true);
+  }, [send, handleMessage, handleDrop]);
 
-    ws.onerror = () => {
-      cleanup();
-      setPhase('disconnected');
-      setError('Connection to game server failed');
-    };
-  }, [address, send, handleMessage, cleanup]);
+  useEffect(() => {
+    connectRef.current = connect;
+  }, [connect]);
+
+  const openRoom = useCallback((request: ClientMsg) => {
+    if (!address || wsRef.current) return;
+
+    roomRequestRef.current = request;
+    setPhase('connecting');
+    setError(null);
+    setWinner(null);
+    setWinReason(null);
+    setPayoutAmount(null);
+    reconnectAttemptRef.current = 0;
+    connect();
+  }, [address, connect]);
+
+  const joinGame = useCallback((code?: string) => {
+    openRoom({ type: ClientMsgType.JoinRoom, code });
+  }, [openRoom]);
+
+  const findMatch = useCallback((tier: number) => {
+    openRoom({ type: ClientMsgType.FindMatch, tier });
+  }, [openRoom]);
+
+  const createPrivateGame = useCallback((settings: Partial<RoomSettings>) => {
+    openRoom({ type: ClientMsgType.CreateRoom, settings });
+  }, [openRoom]);
 
   const sendPosition = useCallback((x: number, y: number, z: number) => {
     const now = Date.now();
     if (now - lastPositionSend.current < POSITION_INTERVAL) return;
     lastPositionSend.current = now;
-    send({ type: ClientMsgType.PositionUpdate, position: { x, y, z } });
+    const position = { x, y, z };
+    send({ type: ClientMsgType.PositionUpdate, ...nextPositionUpdate(position), position });
   }, [send]);
 
   const startHarvest = useCallback((resourceId: string) => {
@@ -280,41 +692,45 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
     send({ type: ClientMsgType.StartDig, position: { x, y, z } });
   }, [send]);
 
+  const craft = useCallback((recipeId: RecipeId) => {
+    send({ type: ClientMsgType.Craft, recipeId });
+  }, [send]);
+
+  const shove = useCallback((targetId: string) => {
+    send({ type: ClientMsgType.Shove, targetId });
+  }, [send]);
+
+  const steal = useCallback((targetId: string) => {
+    send({ type: ClientMsgType.Steal, targetId });
+  }, [send]);
+
+  const plantTrap = useCallback(() => {
+    send({ type: ClientMsgType.PlantTrap });
+  }, [send]);
+
   const leaveGame = useCallback(() => {
     send({ type: ClientMsgType.LeaveRoom });
     cleanup();
     setPhase('disconnected');
-    setPlayerId(null);
-    playerIdRef.current = null;
-    setRoomId(null);
-    setSeed(null);
-    setPlayers([]);
-    setResources([]);
-    setInventory(defaultInventory);
-    setUpgrades(defaultUpgrades);
-    setCountdown(0);
-    setMapHint(null);
-    setDigSpots([]);
-    resetDigSpots();
-    setWinner(null);
-    setWinReason(null);
-    setPayoutAmount(null);
-  }, [send, cleanup]);
+    resetMatchState();
+  }, [send, cleanup, resetMatchState]);
 
   useEffect(() => {
     return () => cleanup();
   }, [cleanup]);
 
   const value = useMemo(() => ({
-    phase, playerId, roomId, seed,
+    phase, playerId, roomId, inviteCode, roomSettings, mode, matchmaking, seed,
     players, resources, inventory, upgrades,
-    countdown, mapHint, digSpots, winner, winReason, payoutAmount, error,
-    joinGame, sendPosition, startHarvest, startDig, leaveGame,
+    countdownEndsAt, gameEndsAt, actionEndsAt, ping, mapHint, digSpots, digHints,
+    traps, shoveReadyAt, stealReadyAt, pvpEvents, winner, winReason, payoutAmount, error,
+    joinGame, findMatch, createPrivateGame, sendPosition, startHarvest, startDig, craft, shove, steal, plantTrap, leaveGame,
   }), [
-    phase, playerId, roomId, seed,
+    phase, playerId, roomId, inviteCode, roomSettings, mode, matchmaking, seed,
     players, resources, inventory, upgrades,
-    countdown, mapHint, digSpots, winner, winReason, payoutAmount, error,
-    joinGame, sendPosition, startHarvest, startDig, leaveGame,
+    countdownEndsAt, gameEndsAt, actionEndsAt, ping, mapHint, digSpots, digHints,
+    traps, shoveReadyAt, stealReadyAt, pvpEvents, winner, winReason, payoutAmount, error,
+    joinGame, findMatch, createPrivateGame, sendPosition, startHarvest, startDig, craft, shove, steal, plantTrap, leaveGame,
   ]);
 
   return (
@@ -36,7 +36,7 @@ const mapState = (s: any) => ({
 
 interface YellowContextType {
   connect: () => Promise<void>;
-  transferTo: (destination: string, amount: number) => Promise<void>;
+  transferTo: (destination: string, amount: number, asset?: string) => Promise<void>;
   isReady: boolean;
   isConnecting: boolean;
   balance: number;
@@ -206,13 +206,13 @@ export const YellowProvider = ({ children }: { children: ReactNode }) => {
     });
   };
 
-  const transferTo = async (destination: string, amount: number) => {
+  const transferTo = async (destination: string, amount: number, asset = YELLOW_ASSET) => {
     if (!sessionSignerRef.current || !wsRef.current) {
       throw new Error('Yellow channel not ready');
     }
     const msg = await createTransferMessage(sessionSignerRef.current, {
       destination: destination as `0x${string}`,
-      allocations: [{ asset: YELLOW_ASSET, amount: amount.toString() }],
+      allocations: [{ asset, amount: amount.toString() }],
     });
     wsRef.current.send(msg);
   };
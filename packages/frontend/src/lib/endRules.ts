@@ -0,0 +1,8 @@
+import type { EndRule } from '@/types/game';
+
+/** How each end rule is described in the lobby and the create-room form. */
+export const END_RULE_LABELS: Record<EndRule, string> = {
+  refund: 'No chest found: everyone is refunded',
+  highest_score: 'No chest found: highest score takes the pot',
+  proportional: 'No chest found: pot split by score',
+};
@@ -0,0 +1,97 @@
+import type { PlayerState, Vec3 } from '@/types/game';
+import { serverClock } from './serverClock';
+
+/** How far behind the newest snapshot remote players are drawn, to ride out network jitter. */
+export const INTERP_DELAY_MS = 100;
+/** How long a player keeps moving on their last velocity when snapshots run late. */
+const MAX_EXTRAPOLATE_MS = 150;
+const MAX_SAMPLES = 20;
+
+interface Sample {
+  t: number;
+  position: Vec3;
+}
+
+export interface BufferedState {
+  position: Vec3;
+  /** Units per second on the ground plane. */
+  velocity: { x: number; z: number };
+}
+
+// Outside React state: samples arrive with every snapshot and are read every frame.
+const buffers = new Map<string, Sample[]>();
+
+/**
+ * Records every player in a snapshot taken at `serverTime`. Stationary
+ * players are recorded too, so their buffers show them standing still.
+ */
+export function pushSnapshot(serverTime: number, players: PlayerState[]) {
+  for (const player of players) {
+    let samples = buffers.get(player.id);
+    if (!samples) {
+      samples = [];
+      buffers.set(player.id, samples);
+    }
+    const last = samples[samples.length - 1];
+    if (last && serverTime <= last.t) continue;
+    samples.push({ t: serverTime, position: { ...player.position } });
+    if (samples.length > MAX_SAMPLES) samples.shift();
+  }
+}
+
+export function forgetPlayer(id: string) {
+  buffers.delete(id);
+}
+
+export function resetInterpolation() {
+  buffers.clear();
+}
+
+/** The server time remote players should be drawn at now. */
+export function renderTime(): number {
+  return serverClock.serverNow() - INTERP_DELAY_MS;
+}
+
+/**
+ * Where player `id` was at server time `t`: interpolated between the two
+ * samples around it, or extrapolated a little past the newest one and then
+ * eased back to it if nothing newer arrives. Null with no samples or
+ * before the server clock is known.
+ */
+export function sampleAt(id: string, t: number): BufferedState | null {
+  const samples = buffers.get(id);
+  if (!samples || samples.length === 0 || !serverClock.synced) return null;
+
+  const first = samples[0];
+  if (samples.length === 1 || t <= first.t) return { position: first.position, velocity: { x: 0, z: 0 } };
+
+  let i = samples.length - 1;
+  while (i > 1 && samples[i - 1].t >= t) i--;
+  const a = samples[i - 1];
+  const b = samples[i];
+  const span = b.t - a.t;
+  const velocity = { x: (b.position.x - a.position.x) / span * 1000, z: (b.position.z - a.position.z) / span * 1000 };
+
+  if (t <= b.t) {
+    const k = (t - a.t) / span;
+    return {
+      position: {
+        x: a.position.x + (b.position.x - a.position.x) * k,
+        y: a.position.y + (b.position.y - a.position.y) * k,
+        z: a.position.z + (b.position.z - a.position.z) * k,
+      },
+      velocity,
+    };
+  }
+
+  const past = t - b.t;
+  const ahead = past <= MAX_EXTRAPOLATE_MS ? past : Math.max(0, 2 * MAX_EXTRAPOLATE_MS - past);
+  return {
+    position: {
+      x: b.position.x + velocity.x * ahead / 1000,
+      y: b.position.y,
+      z: b.position.z + velocity.z * ahead / 1000,
+    },
+    velocity: ahead > 0 && past <= MAX_EXTRAPOLATE_MS ? velocity : { x: 0, z: 0 },
+  };
+}
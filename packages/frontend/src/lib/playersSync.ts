@@ -0,0 +1,13 @@
+import type { PlayerState, PlayersDeltaMsg } from '@/types/game';
+
+/** Rebuilds the snapshot `delta` describes from the snapshot it is based on. */
+export function applyPlayersDelta(base: PlayerState[], delta: PlayersDeltaMsg): PlayerState[] {
+  const players = new Map(base.map(p => [p.id, p]));
+  for (const id of delta.removed) players.delete(id);
+  for (const change of delta.players) {
+    const previous = players.get(change.id);
+    // Players new to the snapshot arrive with every field set.
+    players.set(change.id, previous ? { ...previous, ...change } : change as PlayerState);
+  }
+  return Array.from(players.values());
+}
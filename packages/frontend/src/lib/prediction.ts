@@ -0,0 +1,72 @@
+import type { Vec3 } from '@/types/game';
+
+/** Disagreements with the server smaller than this are left alone. */
+const ACK_TOLERANCE = 0.05;
+
+/** How Player should move the local rigid body to agree with the server. */
+export type Correction =
+  | { kind: 'snap'; position: Vec3 }
+  | { kind: 'blend'; offset: Vec3 };
+
+// The local player moves freely under physics; these track the positions
+// sent to the server until it acknowledges them.
+let seq = 0;
+let applied = 0;
+let sent: { seq: number; position: Vec3 }[] = [];
+let pending: Correction | null = null;
+let pendingCorrection = 0;
+
+/** Numbers a position about to be sent and remembers it until the server acknowledges it. */
+export function nextPositionUpdate(position: Vec3): { seq: number; correction: number } {
+  seq++;
+  sent.push({ seq, position: { ...position } });
+  return { seq, correction: applied };
+}
+
+/**
+ * Compares the server's position after update `ackSeq` with the one we sent.
+ * A difference is blended into the local player, keeping the movement made
+ * since, and the positions sent after `ackSeq` are shifted by it so the
+ * same disagreement is not corrected twice.
+ */
+export function acknowledge(ackSeq: number, position: Vec3) {
+  const index = sent.findIndex(s => s.seq === ackSeq);
+  if (index < 0) return;
+  const ours = sent[index].position;
+  sent = sent.slice(index + 1);
+
+  const offset = { x: position.x - ours.x, y: 0, z: position.z - ours.z };
+  if (Math.hypot(offset.x, offset.z) < ACK_TOLERANCE) return;
+  for (const s of sent) {
+    s.position.x += offset.x;
+    s.position.z += offset.z;
+  }
+  if (pending?.kind === 'snap') return;
+  pending = pending
+    ? { kind: 'blend', offset: { x: pending.offset.x + offset.x, y: 0, z: pending.offset.z + offset.z } }
+    : { kind: 'blend', offset };
+}
+
+/** The server rejected a move: snap back to `position` and forget what was sent on top of it. */
+export function correct(correction: number, position: Vec3) {
+  sent = [];
+  pending = { kind: 'snap', position };
+  pendingCorrection = correction;
+}
+
+/** The correction not yet applied, if any; clears it. */
+export function takeCorrection(): Correction | null {
+  const correction = pending;
+  pending = null;
+  if (correction?.kind === 'snap') applied = Math.max(applied, pendingCorrection);
+  return correction;
+}
+
+/** Starts over for a new match or connection. */
+export function resetPrediction() {
+  seq = 0;
+  applied = 0;
+  sent = [];
+  pending = null;
+  pendingCorrection = 0;
+}
@@ -0,0 +1,127 @@
+import { ServerMsgType } from '@/types/game';
+import type { PlayerState, Resource, ReplayEvent, ReplayHeader, ReplayLine, Vec3 } from '@/types/game';
+
+export interface ReplayMoment {
+  t: number;
+  label: string;
+}
+
+export interface Replay {
+  header: ReplayHeader;
+  events: ReplayEvent[];
+  duration: number;
+  resources: Resource[];
+  /** PlayersSync snapshots, in time order, for fast seeking. */
+  syncs: { t: number; players: PlayerState[] }[];
+  /** Each resource's charges after every harvest or respawn, in time order. */
+  charges: Map<string, { t: number; charges: number }[]>;
+  digs: { t: number; position: Vec3 }[];
+  chest: { t: number; playerId: string; position: Vec3 } | null;
+  /** Notable events for the timeline, e.g. digs and the chest find. */
+  moments: ReplayMoment[];
+}
+
+export interface ReplayFrame {
+  t: number;
+  players: PlayerState[];
+  resources: Resource[];
+  digSpots: Vec3[];
+  chest: { playerId: string; position: Vec3 } | null;
+}
+
+/** Reads a `.jsonl.gz` (or plain `.jsonl`) replay file written by the game server. */
+export async function loadReplay(file: File): Promise<Replay> {
+  const stream = file.name.endsWith('.gz')
+    ? file.stream().pipeThrough(new DecompressionStream('gzip'))
+    : file.stream();
+  const text = await new Response(stream).text();
+  const lines: ReplayLine[] = text.split('\n').filter(l => l.trim()).map(l => JSON.parse(l));
+
+  const header = lines[0];
+  if (header?.kind !== 'header') throw new Error('Not a replay file');
+  return indexReplay(header, lines.slice(1) as ReplayEvent[]);
+}
+
+const shortId = (id: string) => id.split('_')[1] ?? id;
+const formatPos = (p: Vec3) => `(${p.x.toFixed(1)}, ${p.z.toFixed(1)})`;
+
+function indexReplay(header: ReplayHeader, events: ReplayEvent[]): Replay {
+  const replay: Replay = {
+    header,
+    events,
+    duration: events.length > 0 ? events[events.length - 1].t : 0,
+    resources: [],
+    syncs: [],
+    charges: new Map(),
+    digs: [],
+    chest: null,
+    moments: [],
+  };
+
+  for (const e of events) {
+    if (e.kind === 'client') continue;
+    const msg = e.msg;
+    switch (msg.type) {
+      case ServerMsgType.GameStarted:
+        replay.resources = msg.resources;
+        break;
+      case ServerMsgType.PlayersSync:
+        replay.syncs.push({ t: e.t, players: msg.players });
+        break;
+      case ServerMsgType.HarvestComplete:
+      case ServerMsgType.ResourceRespawned: {
+        const timeline = replay.charges.get(msg.resourceId) ?? [];
+        timeline.push({ t: e.t, charges: msg.charges });
+        replay.charges.set(msg.resourceId, timeline);
+        break;
+      }
+      case ServerMsgType.DigStarted:
+        replay.digs.push({ t: e.t, position: msg.position });
+        replay.moments.push({ t: e.t, label: `Player ${shortId(msg.playerId)} started digging at ${formatPos(msg.position)}` });
+        break;
+      case ServerMsgType.ChestFound:
+        replay.chest = { t: e.t, playerId: msg.playerId, position: msg.position };
+        replay.moments.push({ t: e.t, label: `Player ${shortId(msg.playerId)} found the chest` });
+        break;
+      case ServerMsgType.GameEnded:
+        replay.moments.push({ t: e.t, label: `Game ended (${msg.reason})` });
+        break;
+    }
+  }
+  return replay;
+}
+
+/** Index of the last entry with `t <= time`, or -1. */
+function lastAtOrBefore(list: { t: number }[], time: number): number {
+  let lo = 0;
+  let hi = list.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (list[mid].t <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+/** Reconstructs what the room looked like `t` ms into the match. */
+export function replayFrameAt(replay: Replay, t: number): ReplayFrame {
+  const syncIdx = lastAtOrBefore(replay.syncs, t);
+
+  return {
+    t,
+    players: syncIdx >= 0 ? replay.syncs[syncIdx].players : [],
+    resources: replay.resources.map(r => {
+      const timeline = replay.charges.get(r.id) ?? [];
+      const idx = lastAtOrBefore(timeline, t);
+      const charges = idx >= 0 ? timeline[idx].charges : r.maxCharges;
+      return { ...r, charges, harvested: charges === 0 };
+    }),
+    digSpots: replay.digs.filter(d => d.t <= t).map(d => d.position),
+    chest: replay.chest && replay.chest.t <= t ? { playerId: replay.chest.playerId, position: replay.chest.position } : null,
+  };
+}
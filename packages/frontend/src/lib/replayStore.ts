@@ -0,0 +1,20 @@
+import { useSyncExternalStore } from 'react';
+import type { ReplayFrame } from './replay';
+
+// Lives outside React state so advancing playback doesn't re-render the whole Scene.
+let currentFrame: ReplayFrame | null = null;
+const listeners = new Set<() => void>();
+
+export function setReplayFrame(frame: ReplayFrame | null) {
+  currentFrame = frame;
+  for (const listener of listeners) listener();
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function useReplayFrame(): ReplayFrame | null {
+  return useSyncExternalStore(subscribe, () => currentFrame);
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import { ClockSync } from '@game/clockSync';
+
+/** The browser's estimate of the server clock, fed by GameContext's Ping/Pong. */
+export const serverClock = new ClockSync();
+
+/** Whole seconds until local time `endsAt` (e.g. a server deadline passed through `toLocal`), ticking while mounted. */
+export function useSecondsLeft(endsAt: number | null): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (endsAt === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [endsAt]);
+  return endsAt === null ? 0 : Math.max(0, Math.ceil((endsAt - now) / 1000));
+}
@@ -1,3 +1,7 @@
+import type { GameMode, GameModeId } from '@game/gameModes';
+
+export type { GameMode, GameModeId };
+
 export interface Vec3 {
   x: number;
   y: number;
@@ -14,7 +18,21 @@ export interface Resource {
   id: string;
   type: ResourceType;
   position: Vec3;
+  /** Rare node with more charges and a bigger yield. */
+  rich: boolean;
+  /** Harvests left before the node is depleted. */
+  charges: number;
+  maxCharges: number;
+  /** Items each harvest gives. */
+  yield: number;
+  /** How long the node takes to regrow once depleted; fixed per node by the room seed. */
+  respawnMs: number;
+  /** Depleted: no charges left until the node respawns. */
   harvested: boolean;
+  /** Server time the node respawns, while it is depleted. */
+  respawnsAt?: number;
+  /** Player harvesting the node; nobody else can start on it until they finish or stop. */
+  reservedBy?: string;
 }
 
 export interface Inventory {
@@ -23,11 +41,24 @@ export interface Inventory {
   berry: number;
 }
 
+/** A hidden trap; only its owner is told where it is until it springs. */
+export interface Trap {
+  id: string;
+  ownerId: string;
+  position: Vec3;
+}
+
 export interface PlayerUpgrades {
   speedMultiplier: number;
   digMultiplier: number;
+  /** Whether any map fragment has been crafted. */
   hasMap: boolean;
+  /** Shovel tiers crafted. */
   digUpgradesTaken: number;
+  boots: number;
+  mapFragments: number;
+  /** Each torch sharpens the hints failed digs give. */
+  torches: number;
 }
 
 export interface PlayerState {
@@ -35,12 +66,51 @@ export interface PlayerState {
   address: string;
   position: Vec3;
   score: number;
-  currentAction: 'idle' | 'harvesting' | 'digging';
+  currentAction: 'idle' | 'harvesting' | 'digging' | 'crafting' | 'stealing' | 'planting';
   connected: boolean;
+  /** Round trip to the server in ms as last reported by the player, 0 if unknown. */
+  latency: number;
   inventory: Inventory;
   upgrades: PlayerUpgrades;
 }
 
+/** The fields of a PlayerState that changed, or all of them for a player new to the snapshot. */
+export type PlayerDelta = Pick<PlayerState, 'id'> & Partial<Omit<PlayerState, 'id'>>;
+
+/**
+ * How the pot is settled when a match ends without anyone finding the chest:
+ * everyone is refunded, the highest score takes it (a tie refunds), or it is
+ * split in proportion to score.
+ */
+export type EndRule = 'refund' | 'highest_score' | 'proportional';
+
+export const END_RULES: EndRule[] = ['refund', 'highest_score', 'proportional'];
+
+/** How close a failed dig was to the chest. */
+export type DigHeat = 'cold' | 'warm' | 'hot';
+
+/** What a failed dig tells the digger about where the chest is. */
+export interface DigHint {
+  heat: DigHeat;
+  /**
+   * Rough direction from the dig to the chest, in radians on the ground
+   * plane (0 along +x, PI/2 along +z). Only given to players with a torch.
+   */
+  bearing?: number;
+  /** The true direction lies within this many radians either side of `bearing`. */
+  bearingError?: number;
+}
+
+/** Per-room rules chosen when the room is created. */
+export interface RoomSettings {
+  wagerAmount: number;
+  asset: string;
+  minPlayers: number;
+  maxPlayers: number;
+  endRule: EndRule;
+  mode: GameModeId;
+}
+
 export enum RoomPhase {
   Lobby = 'lobby',
   Playing = 'playing',
@@ -48,7 +118,13 @@ export enum RoomPhase {
 }
 
 export enum ClientMsgType {
+  Hello = 'Hello',
+  Authenticate = 'Authenticate',
+  CreateRoom = 'CreateRoom',
+  FindMatch = 'FindMatch',
+  CancelMatch = 'CancelMatch',
   JoinRoom = 'JoinRoom',
+  ResumeSession = 'ResumeSession',
   LeaveRoom = 'LeaveRoom',
   WagerConfirmed = 'WagerConfirmed',
   Ready = 'Ready',
@@ -57,44 +133,101 @@ export enum ClientMsgType {
   StartDig = 'StartDig',
   CancelHarvest = 'CancelHarvest',
   CancelDig = 'CancelDig',
+  Craft = 'Craft',
+  CancelCraft = 'CancelCraft',
+  Shove = 'Shove',
+  Steal = 'Steal',
+  PlantTrap = 'PlantTrap',
+  SyncAck = 'SyncAck',
   Ping = 'Ping',
 }
 
 export enum ServerMsgType {
+  Welcome = 'Welcome',
+  AuthChallenge = 'AuthChallenge',
+  Authenticated = 'Authenticated',
+  MatchmakingStatus = 'MatchmakingStatus',
   RoomJoined = 'RoomJoined',
+  SessionResumed = 'SessionResumed',
+  ResumeFailed = 'ResumeFailed',
   WagerRequired = 'WagerRequired',
   WagerAccepted = 'WagerAccepted',
   GameStarting = 'GameStarting',
   GameStarted = 'GameStarted',
-  PlayerMoved = 'PlayerMoved',
   PlayersSync = 'PlayersSync',
+  PlayersDelta = 'PlayersDelta',
+  PositionAck = 'PositionAck',
+  PositionCorrection = 'PositionCorrection',
   HarvestStarted = 'HarvestStarted',
   HarvestComplete = 'HarvestComplete',
+  HarvestCancelled = 'HarvestCancelled',
+  ResourceRespawned = 'ResourceRespawned',
+  ResourceUpdated = 'ResourceUpdated',
   DigStarted = 'DigStarted',
   DigComplete = 'DigComplete',
+  CraftStarted = 'CraftStarted',
+  CraftComplete = 'CraftComplete',
+  PlayerShoved = 'PlayerShoved',
+  StealStarted = 'StealStarted',
+  ItemStolen = 'ItemStolen',
+  TrapStarted = 'TrapStarted',
+  TrapPlanted = 'TrapPlanted',
+  TrapTriggered = 'TrapTriggered',
+  TrapRemoved = 'TrapRemoved',
   ChestFound = 'ChestFound',
   GameEnded = 'GameEnded',
   PayoutComplete = 'PayoutComplete',
+  PayoutFailed = 'PayoutFailed',
   PlayerLeft = 'PlayerLeft',
-  UpgradeUnlocked = 'UpgradeUnlocked',
   MapRevealed = 'MapRevealed',
   Error = 'Error',
   Pong = 'Pong',
 }
 
-export interface JoinRoomMsg { type: ClientMsgType.JoinRoom; address: string }
+/** First message on every connection, always sent as JSON text. */
+export interface HelloMsg { type: ClientMsgType.Hello; version: number; encodings: string[] }
+export interface AuthenticateMsg { type: ClientMsgType.Authenticate; address: string; signature: string }
+export interface CreateRoomMsg { type: ClientMsgType.CreateRoom; settings?: Partial<RoomSettings> }
+/** Joins the private room with invite `code`; without one it queues for a match at the default tier. */
+export interface JoinRoomMsg { type: ClientMsgType.JoinRoom; code?: string }
+/** Queues for a match at wager `tier`. */
+export interface FindMatchMsg { type: ClientMsgType.FindMatch; tier: number }
+export interface CancelMatchMsg { type: ClientMsgType.CancelMatch }
+export interface ResumeSessionMsg { type: ClientMsgType.ResumeSession; token: string }
 export interface LeaveRoomMsg { type: ClientMsgType.LeaveRoom }
 export interface WagerConfirmedMsg { type: ClientMsgType.WagerConfirmed }
 export interface ReadyMsg { type: ClientMsgType.Ready }
-export interface PositionUpdateMsg { type: ClientMsgType.PositionUpdate; position: Vec3 }
+/**
+ * `seq` numbers the client's updates. `correction` is the newest PositionCorrection
+ * the client has applied; updates sent before it caught up with one are dropped.
+ */
+export interface PositionUpdateMsg { type: ClientMsgType.PositionUpdate; seq: number; correction: number; position: Vec3 }
 export interface StartHarvestMsg { type: ClientMsgType.StartHarvest; resourceId: string }
 export interface StartDigMsg { type: ClientMsgType.StartDig; position: Vec3 }
 export interface CancelHarvestMsg { type: ClientMsgType.CancelHarvest }
 export interface CancelDigMsg { type: ClientMsgType.CancelDig }
-export interface PingMsg { type: ClientMsgType.Ping; t: number }
+/** Crafts the next tier of recipe `recipeId` (see recipes.ts), spending its cost when the craft completes. */
+export interface CraftMsg { type: ClientMsgType.Craft; recipeId: string }
+export interface CancelCraftMsg { type: ClientMsgType.CancelCraft }
+/** Interrupts the action of `targetId`, who must be within PVP_RANGE (see pvp.ts). */
+export interface ShoveMsg { type: ClientMsgType.Shove; targetId: string }
+/** Starts robbing one item from `targetId`, who must still be in range when it completes. */
+export interface StealMsg { type: ClientMsgType.Steal; targetId: string }
+/** Plants a trap where the player stands, paying the mode's trap cost when planting completes. */
+export interface PlantTrapMsg { type: ClientMsgType.PlantTrap }
+/** Acknowledges the PlayersSync or PlayersDelta with `seq`, so later deltas can be based on it. */
+export interface SyncAckMsg { type: ClientMsgType.SyncAck; seq: number }
+/** `t` is the client's clock, echoed in Pong; `rtt` its latest round-trip estimate, shown to other players. */
+export interface PingMsg { type: ClientMsgType.Ping; t: number; rtt?: number }
 
 export type ClientMsg =
+  | HelloMsg
+  | AuthenticateMsg
+  | CreateRoomMsg
   | JoinRoomMsg
+  | FindMatchMsg
+  | CancelMatchMsg
+  | ResumeSessionMsg
   | LeaveRoomMsg
   | WagerConfirmedMsg
   | ReadyMsg
@@ -103,45 +236,133 @@ export type ClientMsg =
   | StartDigMsg
   | CancelHarvestMsg
   | CancelDigMsg
+  | CraftMsg
+  | CancelCraftMsg
+  | ShoveMsg
+  | StealMsg
+  | PlantTrapMsg
+  | SyncAckMsg
   | PingMsg;
 
-export interface RoomJoinedMsg { type: ServerMsgType.RoomJoined; roomId: string; playerId: string; phase: RoomPhase; players: PlayerState[] }
+/** Answers Hello as JSON text; every later frame uses `encoding`. */
+export interface WelcomeMsg { type: ServerMsgType.Welcome; version: number; encoding: 'msgpack' | 'json' }
+export interface AuthChallengeMsg { type: ServerMsgType.AuthChallenge; nonce: string }
+export interface AuthenticatedMsg { type: ServerMsgType.Authenticated; address: string }
+export type MatchmakingState = 'searching' | 'matched' | 'cancelled' | 'timed_out';
+/** `ratingWindow` is the +/- rating difference the search currently accepts. */
+export interface MatchmakingStatusMsg { type: ServerMsgType.MatchmakingStatus; state: MatchmakingState; tier: number; rating: number; ratingWindow: number; waitedMs: number; playersInQueue: number }
+export interface RoomJoinedMsg { type: ServerMsgType.RoomJoined; roomId: string; playerId: string; phase: RoomPhase; players: PlayerState[]; resumeToken: string; settings: RoomSettings; inviteCode: string | null; mode: GameMode }
+export interface SessionResumedMsg { type: ServerMsgType.SessionResumed; position: Vec3; currentAction: PlayerState['currentAction']; inventory: Inventory; upgrades: PlayerUpgrades; traps: Trap[] }
+export interface ResumeFailedMsg { type: ServerMsgType.ResumeFailed; reason: string }
 export interface WagerRequiredMsg { type: ServerMsgType.WagerRequired; amount: number; serverAddress: string; asset: string }
 export interface WagerAcceptedMsg { type: ServerMsgType.WagerAccepted; playerId: string }
-export interface GameStartingMsg { type: ServerMsgType.GameStarting; countdown: number }
-export interface GameStartedMsg { type: ServerMsgType.GameStarted; seed: number; resources: Resource[] }
-export interface PlayerMovedMsg { type: ServerMsgType.PlayerMoved; playerId: string; position: Vec3 }
-export interface PlayersSyncMsg { type: ServerMsgType.PlayersSync; players: PlayerState[] }
-export interface HarvestStartedMsg { type: ServerMsgType.HarvestStarted; playerId: string; resourceId: string }
-export interface HarvestCompleteMsg { type: ServerMsgType.HarvestComplete; playerId: string; resourceId: string; resourceType: string; inventory: Inventory; upgrades: PlayerUpgrades }
-export interface DigStartedMsg { type: ServerMsgType.DigStarted; playerId: string; position: Vec3 }
-export interface DigCompleteMsg { type: ServerMsgType.DigComplete; playerId: string; found: boolean }
+/** Times named `...At` in server messages are on the server clock, in ms. */
+export interface GameStartingMsg { type: ServerMsgType.GameStarting; countdown: number; startsAt: number }
+export interface GameStartedMsg { type: ServerMsgType.GameStarted; seed: number; resources: Resource[]; endsAt: number }
+/** Full state of every player in snapshot `seq`, taken at `serverTime` (server clock, ms). */
+export interface PlayersSyncMsg { type: ServerMsgType.PlayersSync; seq: number; tick: number; serverTime: number; players: PlayerState[] }
+/** Snapshot `seq` as the changes from snapshot `baseSeq`, which the client has acknowledged. */
+export interface PlayersDeltaMsg { type: ServerMsgType.PlayersDelta; seq: number; baseSeq: number; tick: number; serverTime: number; players: PlayerDelta[]; removed: string[] }
+/** The server's position for the player after processing its PositionUpdate `seq`. */
+export interface PositionAckMsg { type: ServerMsgType.PositionAck; seq: number; position: Vec3 }
+/** The server rejected PositionUpdate `seq`; the player is moved back to `position`, its last accepted one. */
+export interface PositionCorrectionMsg { type: ServerMsgType.PositionCorrection; seq: number; correction: number; position: Vec3; reason: string }
+export interface HarvestStartedMsg { type: ServerMsgType.HarvestStarted; playerId: string; resourceId: string; endsAt: number }
+/** `amount` items were taken, leaving `charges`; a depleted node also carries `respawnsAt`. */
+export interface HarvestCompleteMsg { type: ServerMsgType.HarvestComplete; playerId: string; resourceId: string; resourceType: string; amount: number; charges: number; respawnsAt?: number; inventory: Inventory; upgrades: PlayerUpgrades }
+/** `playerId` stopped harvesting `resourceId` before finishing, freeing the node. */
+export interface HarvestCancelledMsg { type: ServerMsgType.HarvestCancelled; playerId: string; resourceId: string }
+/** A depleted node has regrown with `charges` harvests. */
+export interface ResourceRespawnedMsg { type: ServerMsgType.ResourceRespawned; resourceId: string; charges: number }
+/** What players out of view hear of a harvest ending: the node is free again with `charges` left, but not who harvested it. */
+export interface ResourceUpdatedMsg { type: ServerMsgType.ResourceUpdated; resourceId: string; charges: number; respawnsAt?: number }
+export interface DigStartedMsg { type: ServerMsgType.DigStarted; playerId: string; position: Vec3; endsAt: number }
+/** `hint` is only sent to the digger. */
+export interface DigCompleteMsg { type: ServerMsgType.DigComplete; playerId: string; found: boolean; hint?: DigHint }
+export interface CraftStartedMsg { type: ServerMsgType.CraftStarted; playerId: string; recipeId: string; endsAt: number }
+export interface CraftCompleteMsg { type: ServerMsgType.CraftComplete; playerId: string; recipeId: string; inventory: Inventory; upgrades: PlayerUpgrades }
+/** `playerId` shoved `targetId`, cutting short `interrupted`; `cooldownEndsAt` is when the shover can shove again. */
+export interface PlayerShovedMsg { type: ServerMsgType.PlayerShoved; playerId: string; targetId: string; interrupted: PlayerState['currentAction']; cooldownEndsAt: number }
+export interface StealStartedMsg { type: ServerMsgType.StealStarted; playerId: string; targetId: string; endsAt: number; cooldownEndsAt: number }
+/** `item` is null when the target got away or had nothing; the inventories are after the theft. */
+export interface ItemStolenMsg { type: ServerMsgType.ItemStolen; playerId: string; targetId: string; item: keyof Inventory | null; inventory: Inventory; targetInventory: Inventory }
+export interface TrapStartedMsg { type: ServerMsgType.TrapStarted; playerId: string; endsAt: number }
+/** Only sent to the trap's owner. */
+export interface TrapPlantedMsg { type: ServerMsgType.TrapPlanted; trap: Trap; inventory: Inventory }
+/** `playerId` dug beside `trap`, and their dig takes `stallMs` longer. */
+export interface TrapTriggeredMsg { type: ServerMsgType.TrapTriggered; playerId: string; trap: Trap; stallMs: number }
+/** What players out of view of the dig hear of a sprung trap: only that it is gone. */
+export interface TrapRemovedMsg { type: ServerMsgType.TrapRemoved; trapId: string }
 export interface ChestFoundMsg { type: ServerMsgType.ChestFound; playerId: string; position: Vec3 }
 export interface GameEndedMsg { type: ServerMsgType.GameEnded; winnerId: string | null; reason: 'chest_found' | 'timeout' | 'abandoned' }
-export interface PayoutCompleteMsg { type: ServerMsgType.PayoutComplete; winnerId: string | null; amount: number }
+export interface PayoutCompleteMsg { type: ServerMsgType.PayoutComplete; winnerId: string | null; amount: number; transactionIds: number[] }
+export interface PayoutFailedMsg { type: ServerMsgType.PayoutFailed; winnerId: string | null; amount: number; message: string }
 export interface PlayerLeftMsg { type: ServerMsgType.PlayerLeft; playerId: string }
-export interface UpgradeUnlockedMsg { type: ServerMsgType.UpgradeUnlocked; playerId: string; upgrade: 'speed' | 'dig_speed' | 'map' }
 export interface MapRevealedMsg { type: ServerMsgType.MapRevealed; center: Vec3; radius: number }
 export interface ErrorMsg { type: ServerMsgType.Error; message: string }
-export interface PongMsg { type: ServerMsgType.Pong; t: number }
+export interface PongMsg { type: ServerMsgType.Pong; t: number; serverTime: number }
 
 export type ServerMsg =
+  | WelcomeMsg
+  | AuthChallengeMsg
+  | AuthenticatedMsg
+  | MatchmakingStatusMsg
   | RoomJoinedMsg
+  | SessionResumedMsg
+  | ResumeFailedMsg
   | WagerRequiredMsg
   | WagerAcceptedMsg
   | GameStartingMsg
   | GameStartedMsg
-  | PlayerMovedMsg
   | PlayersSyncMsg
+  | PlayersDeltaMsg
+  | PositionAckMsg
+  | PositionCorrectionMsg
   | HarvestStartedMsg
   | HarvestCompleteMsg
+  | HarvestCancelledMsg
+  | ResourceRespawnedMsg
+  | ResourceUpdatedMsg
   | DigStartedMsg
   | DigCompleteMsg
+  | CraftStartedMsg
+  | CraftCompleteMsg
+  | PlayerShovedMsg
+  | StealStartedMsg
+  | ItemStolenMsg
+  | TrapStartedMsg
+  | TrapPlantedMsg
+  | TrapTriggeredMsg
+  | TrapRemovedMsg
   | ChestFoundMsg
   | GameEndedMsg
   | PayoutCompleteMsg
+  | PayoutFailedMsg
   | PlayerLeftMsg
-  | UpgradeUnlockedMsg
   | MapRevealedMsg
   | ErrorMsg
   | PongMsg;
+
+export const REPLAY_VERSION = 1;
+
+/** First line of every replay file. */
+export interface ReplayHeader {
+  kind: 'header';
+  version: number;
+  roomId: string;
+  seed: number;
+  chestPosition: Vec3;
+  settings: RoomSettings;
+  players: { playerId: string; address: string }[];
+  startedAt: number;
+}
+
+/**
+ * One line per recorded message; `t` is milliseconds since `startedAt`.
+ * Server lines are room broadcasts, client lines are inputs the room accepted.
+ */
+export type ReplayEvent =
+  | { kind: 'server'; t: number; msg: ServerMsg }
+  | { kind: 'client'; t: number; playerId: string; msg: ClientMsg };
+
+export type ReplayLine = ReplayHeader | ReplayEvent;
@@ -8,6 +8,8 @@ export default defineConfig({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Import-free modules shared with the game server, e.g. the wire codec
+      "@game": path.resolve(__dirname, "../game/src/shared"),
     },
   },
 })
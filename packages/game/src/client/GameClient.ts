@@ -1,26 +1,47 @@
 import WebSocket from 'ws';
+import { privateKeyToAccount } from 'viem/accounts';
 import { ClientMsgType, ServerMsgType } from '../shared/protocol.js';
 import type { ClientMsg, ServerMsg } from '../shared/protocol.js';
+import type { RoomSettings } from '../shared/types.js';
+import { buildAuthMessage } from '../shared/auth.js';
+import { PROTOCOL_VERSION, decodeMessage, encodeMessage, offeredEncodings } from '../shared/codec.js';
+import type { WireEncoding } from '../shared/codec.js';
+import { ClockSync } from '../shared/clockSync.js';
+import type { GameMode } from '../shared/gameModes.js';
 import { YellowClient } from './YellowClient.js';
 
 export interface GameClientConfig {
   serverUrl: string;
   privateKey: `0x${string}`;
+  /** Force one wire encoding, e.g. 'json' for debugging. */
+  encoding?: WireEncoding;
 }
 
 export class GameClient {
   private ws!: WebSocket;
   private yellowClient: YellowClient;
+  private account;
   private address: string;
+  private encoding: WireEncoding | null = null;
+  private positionSeq = 0;
+  /** Newest PositionCorrection received, echoed in position updates. */
+  private correction = 0;
+  private pingTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Estimate of the server clock, kept up to date with Ping/Pong. */
+  readonly clock = new ClockSync();
   playerId: string | null = null;
   roomId: string | null = null;
+  /** Rules of the joined room, from RoomJoined. */
+  mode: GameMode | null = null;
   onMessage?: (msg: ServerMsg) => void;
 
   constructor(private cfg: GameClientConfig) {
     this.yellowClient = new YellowClient({ privateKey: cfg.privateKey });
-    this.address = this.yellowClient.address;
+    this.account = privateKeyToAccount(cfg.privateKey);
+    this.address = this.account.address;
   }
 
+  /** Resolves once the game server has verified our wallet signature. */
   async connect(): Promise<void> {
     console.log('[GameClient] Connecting to Yellow...');
     await this.yellowClient.connect();
@@ -31,38 +52,73 @@ export class GameClient {
 
       this.ws.on('open', () => {
         console.log('[GameClient] Connected to game server');
-        resolve();
+        this.encoding = null;
+        const hello: ClientMsg = {
+          type: ClientMsgType.Hello,
+          version: PROTOCOL_VERSION,
+          encodings: offeredEncodings(this.cfg.encoding ?? process.env.WIRE_ENCODING),
+        };
+        this.ws.send(encodeMessage(hello, 'json'));
       });
 
       this.ws.on('error', reject);
 
-      this.ws.on('message', (raw) => {
+      this.ws.on('message', (raw, isBinary) => {
         let msg: ServerMsg;
-        try { msg = JSON.parse(raw.toString()); }
+        try { msg = decodeMessage(isBinary ? raw as Buffer : raw.toString()); }
         catch { return; }
 
+        if (msg.type === ServerMsgType.Authenticated) resolve();
         this.handleServerMessage(msg);
         this.onMessage?.(msg);
       });
 
-      this.ws.on('close', () => {
-        console.log('[GameClient] Disconnected');
+      this.ws.on('close', (code, reason) => {
+        if (this.pingTimer) clearTimeout(this.pingTimer);
+        this.pingTimer = null;
+        console.log(`[GameClient] Disconnected (${code}${reason.length ? `: ${reason}` : ''})`);
+        reject(new Error(`Connection closed before authenticating (${code})`));
       });
     });
   }
 
   private async handleServerMessage(msg: ServerMsg) {
     switch (msg.type) {
+      case ServerMsgType.Welcome:
+        this.encoding = msg.encoding;
+        console.log(`[GameClient] Protocol v${msg.version}, ${msg.encoding} encoding`);
+        this.schedulePing(0);
+        break;
+
+      case ServerMsgType.Pong:
+        this.clock.onPong(msg.t, msg.serverTime);
+        break;
+
+      case ServerMsgType.AuthChallenge: {
+        const signature = await this.account.signMessage({ message: buildAuthMessage(msg.nonce) });
+        this.send({ type: ClientMsgType.Authenticate, address: this.address, signature });
+        break;
+      }
+
+      case ServerMsgType.Authenticated:
+        console.log(`[GameClient] Authenticated as ${msg.address}`);
+        break;
+
+      case ServerMsgType.MatchmakingStatus:
+        console.log(`[GameClient] Matchmaking ${msg.state}: tier ${msg.tier}, rating ${msg.rating} +/-${msg.ratingWindow}, ${msg.playersInQueue} in queue`);
+        break;
+
       case ServerMsgType.RoomJoined:
         this.playerId = msg.playerId;
         this.roomId = msg.roomId;
-        console.log(`[GameClient] Joined room ${msg.roomId} as ${msg.playerId}`);
+        this.mode = msg.mode;
+        console.log(`[GameClient] Joined ${msg.mode.name} room ${msg.roomId} as ${msg.playerId}${msg.inviteCode ? ` (invite code ${msg.inviteCode})` : ''}`);
         break;
 
       case ServerMsgType.WagerRequired:
         console.log(`[GameClient] Wager required: ${msg.amount} ${msg.asset}`);
         try {
-          await this.yellowClient.transferTo(msg.serverAddress, msg.amount);
+          await this.yellowClient.transferTo(msg.serverAddress, msg.amount, msg.asset);
           this.send({ type: ClientMsgType.WagerConfirmed });
           console.log('[GameClient] Wager sent');
         } catch (e) {
@@ -75,11 +131,24 @@ export class GameClient {
         break;
 
       case ServerMsgType.GameStarting:
-        console.log(`[GameClient] Game starting in ${msg.countdown}ms`);
+        console.log(`[GameClient] Game starting in ${this.secondsUntil(msg.startsAt)}s`);
         break;
 
       case ServerMsgType.GameStarted:
-        console.log(`[GameClient] Game started! Seed: ${msg.seed}, Resources: ${msg.resources.length}`);
+        console.log(`[GameClient] Game started! Seed: ${msg.seed}, Resources: ${msg.resources.length}, ends in ${this.secondsUntil(msg.endsAt)}s`);
+        break;
+
+      case ServerMsgType.PositionCorrection:
+        console.warn(`[GameClient] Position corrected: ${msg.reason}`);
+        this.correction = msg.correction;
+        break;
+
+      case ServerMsgType.ItemStolen:
+        if (msg.targetId === this.playerId && msg.item) console.log(`[GameClient] ${msg.playerId} stole 1 ${msg.item}`);
+        break;
+
+      case ServerMsgType.TrapTriggered:
+        if (msg.playerId === this.playerId) console.log(`[GameClient] Sprang a trap, dig stalled ${msg.stallMs / 1000}s`);
         break;
 
       case ServerMsgType.ChestFound:
@@ -91,7 +160,11 @@ export class GameClient {
         break;
 
       case ServerMsgType.PayoutComplete:
-        console.log(`[GameClient] Payout: ${msg.amount} to ${msg.winnerId}`);
+        console.log(`[GameClient] Payout: ${msg.amount} to ${msg.winnerId} (tx ${msg.transactionIds.join(', ') || 'none'})`);
+        break;
+
+      case ServerMsgType.PayoutFailed:
+        console.error(`[GameClient] Payout failed: ${msg.message}`);
         break;
 
       case ServerMsgType.Error:
@@ -100,12 +173,25 @@ export class GameClient {
     }
   }
 
-  joinRoom() {
-    this.send({ type: ClientMsgType.JoinRoom, address: this.address });
+  /** Joins the private room with `code`, or queues at the default tier when omitted. */
+  joinRoom(code?: string) {
+    this.send({ type: ClientMsgType.JoinRoom, code });
+  }
+
+  findMatch(tier: number) {
+    this.send({ type: ClientMsgType.FindMatch, tier });
+  }
+
+  cancelMatch() {
+    this.send({ type: ClientMsgType.CancelMatch });
+  }
+
+  createRoom(settings: Partial<RoomSettings> = {}) {
+    this.send({ type: ClientMsgType.CreateRoom, settings });
   }
 
   sendPosition(x: number, y: number, z: number) {
-    this.send({ type: ClientMsgType.PositionUpdate, position: { x, y, z } });
+    this.send({ type: ClientMsgType.PositionUpdate, seq: ++this.positionSeq, correction: this.correction, position: { x, y, z } });
   }
 
   startHarvest(resourceId: string) {
@@ -116,13 +202,46 @@ export class GameClient {
     this.send({ type: ClientMsgType.StartDig, position: { x, y, z } });
   }
 
+  craft(recipeId: string) {
+    this.send({ type: ClientMsgType.Craft, recipeId });
+  }
+
+  shove(targetId: string) {
+    this.send({ type: ClientMsgType.Shove, targetId });
+  }
+
+  steal(targetId: string) {
+    this.send({ type: ClientMsgType.Steal, targetId });
+  }
+
+  plantTrap() {
+    this.send({ type: ClientMsgType.PlantTrap });
+  }
+
   leave() {
     this.send({ type: ClientMsgType.LeaveRoom });
   }
 
+  /** Median round trip to the server in ms, or null before the first Pong. */
+  get latency(): number | null {
+    return this.clock.rtt;
+  }
+
+  private schedulePing(delay: number) {
+    this.pingTimer = setTimeout(() => {
+      this.send({ type: ClientMsgType.Ping, t: this.clock.stamp(), rtt: this.clock.rtt ?? undefined });
+      this.schedulePing(this.clock.nextPingDelay());
+    }, delay);
+  }
+
+  /** Seconds from now until server time `serverTime`. */
+  private secondsUntil(serverTime: number): number {
+    return Math.max(0, Math.round((this.clock.toLocal(serverTime) - Date.now()) / 1000));
+  }
+
   private send(msg: ClientMsg) {
     if (this.ws?.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(msg));
+      this.ws.send(encodeMessage(msg, this.encoding ?? 'json'));
     }
   }
 }
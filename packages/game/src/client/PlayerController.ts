@@ -37,6 +37,11 @@ async function main() {
       }, 5000);
     }
 
+    if (msg.type === ServerMsgType.PositionCorrection) {
+      px = msg.position.x;
+      pz = msg.position.z;
+    }
+
     if (msg.type === ServerMsgType.GameEnded) {
       gameActive = false;
       if (posInterval) clearInterval(posInterval);
@@ -180,10 +180,10 @@ export class YellowClient {
     });
   }
 
-  async transferTo(destination: string, amount: number): Promise<void> {
+  async transferTo(destination: string, amount: number, asset = YELLOW_ASSET): Promise<void> {
     const msg = await createTransferMessage(this.sessionSigner, {
       destination: destination as `0x${string}`,
-      allocations: [{ asset: YELLOW_ASSET, amount: amount.toString() }],
+      allocations: [{ asset, amount: amount.toString() }],
     });
     this.ws.send(msg);
   }
@@ -1,28 +1,41 @@
 import 'dotenv/config';
 import WebSocket from 'ws';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
 import { ClientMsgType, ServerMsgType } from '../shared/protocol.js';
 import type { ServerMsg, ClientMsg } from '../shared/protocol.js';
 import type { Resource, Vec3 } from '../shared/types.js';
 import { isOnIsland } from '../shared/island.js';
+import { buildAuthMessage } from '../shared/auth.js';
+import { PROTOCOL_VERSION, decodeMessage, encodeMessage, offeredEncodings } from '../shared/codec.js';
+import type { WireEncoding } from '../shared/codec.js';
+import { GAME_MODES } from '../shared/gameModes.js';
+import type { GameMode } from '../shared/gameModes.js';
 
 const SERVER_URL = process.env.GAME_SERVER_URL || 'ws://localhost:3002';
-const BOT_ADDRESS = '0xB07B07B07B07B07B07B07B07B07B07B07B07B07B0';
-const MOVE_SPEED = 4;
+const BOT_ACCOUNT = privateKeyToAccount((process.env.BOT_PRIVATE_KEY as `0x${string}`) || generatePrivateKey());
 const HARVEST_RANGE = 3;
 const TICK_MS = 50;
 
 const ws = new WebSocket(SERVER_URL);
+let encoding: WireEncoding = 'json';
 let botId: string | null = null;
 let seed = 0;
+let mode: GameMode = GAME_MODES.classic;
 let resources: Resource[] = [];
 let pos: Vec3 = { x: 0, y: 0.5, z: 0 };
 let target: Vec3 | null = null;
+let positionSeq = 0;
+let correction = 0;
 let busy = false;
 let moveInterval: ReturnType<typeof setInterval> | null = null;
 let actionInterval: ReturnType<typeof setInterval> | null = null;
 
 function send(msg: ClientMsg) {
-  ws.send(JSON.stringify(msg));
+  ws.send(encodeMessage(msg, encoding));
+}
+
+function sendPosition() {
+  send({ type: ClientMsgType.PositionUpdate, seq: ++positionSeq, correction, position: pos });
 }
 
 function dist2D(a: Vec3, b: Vec3) {
@@ -47,7 +60,7 @@ function findNearestResource(): Resource | null {
   let nearest: Resource | null = null;
   let minDist = Infinity;
   for (const r of resources) {
-    if (r.harvested) continue;
+    if (r.harvested || r.reservedBy) continue;
     const d = dist2D(pos, r.position);
     if (d < minDist) {
       minDist = d;
@@ -61,7 +74,7 @@ function startBotLoop() {
   // Movement tick
   moveInterval = setInterval(() => {
     if (!target || busy) {
-      send({ type: ClientMsgType.PositionUpdate, position: pos });
+      sendPosition();
       return;
     }
 
@@ -71,13 +84,13 @@ function startBotLoop() {
       return;
     }
 
-    const step = Math.min(MOVE_SPEED * (TICK_MS / 1000), d);
+    const step = Math.min(mode.movement.walkSpeed * (TICK_MS / 1000), d);
     const dx = (target.x - pos.x) / d;
     const dz = (target.z - pos.z) / d;
     pos.x += dx * step;
     pos.z += dz * step;
 
-    send({ type: ClientMsgType.PositionUpdate, position: pos });
+    sendPosition();
   }, TICK_MS);
 
   // Decision tick
@@ -126,21 +139,41 @@ function cleanup() {
 }
 
 ws.on('open', () => {
-  console.log('[Bot] Connected, joining...');
-  send({ type: ClientMsgType.JoinRoom, address: BOT_ADDRESS });
+  console.log(`[Bot] Connected as ${BOT_ACCOUNT.address}, authenticating...`);
+  send({ type: ClientMsgType.Hello, version: PROTOCOL_VERSION, encodings: offeredEncodings(process.env.WIRE_ENCODING) });
 });
 
-ws.on('message', (raw) => {
+ws.on('message', (raw, isBinary) => {
   let msg: ServerMsg;
-  try { msg = JSON.parse(raw.toString()); } catch { return; }
+  try { msg = decodeMessage(isBinary ? raw as Buffer : raw.toString()); } catch { return; }
 
   switch (msg.type) {
+    case ServerMsgType.Welcome:
+      encoding = msg.encoding;
+      break;
+
+    case ServerMsgType.AuthChallenge:
+      BOT_ACCOUNT.signMessage({ message: buildAuthMessage(msg.nonce) })
+        .then(signature => send({ type: ClientMsgType.Authenticate, address: BOT_ACCOUNT.address, signature }));
+      break;
+
+    case ServerMsgType.Authenticated:
+      console.log('[Bot] Authenticated, joining...');
+      send({ type: ClientMsgType.JoinRoom });
+      break;
+
+    case ServerMsgType.MatchmakingStatus:
+      if (msg.state !== 'searching') console.log(`[Bot] Matchmaking ${msg.state}`);
+      break;
+
     case ServerMsgType.RoomJoined:
       botId = msg.playerId;
-      console.log(`[Bot] Joined room ${msg.roomId} as ${msg.playerId}`);
+      mode = msg.mode;
+      console.log(`[Bot] Joined room ${msg.roomId} as ${msg.playerId} (${mode.name})`);
       break;
 
     case ServerMsgType.WagerRequired:
+      // Bots never transfer funds; the server must run with VERIFY_WAGERS=false.
       console.log(`[Bot] Wager required: ${msg.amount}, confirming...`);
       send({ type: ClientMsgType.WagerConfirmed });
       break;
@@ -160,20 +193,60 @@ ws.on('message', (raw) => {
       startBotLoop();
       break;
 
-    case ServerMsgType.HarvestComplete:
+    case ServerMsgType.HarvestComplete: {
+      // Track charges locally so the bot skips depleted nodes
+      const r = resources.find(res => res.id === msg.resourceId);
+      if (r) {
+        r.charges = msg.charges;
+        r.harvested = msg.charges === 0;
+        delete r.reservedBy;
+      }
       if (msg.playerId === botId) {
         busy = false;
-        // Mark resource as harvested locally
-        const r = resources.find(res => res.id === msg.resourceId);
-        if (r) r.harvested = true;
-        console.log(`[Bot] Harvested ${msg.resourceType} | inventory: wood=${msg.inventory.wood} stone=${msg.inventory.stone} berry=${msg.inventory.berry}`);
+        console.log(`[Bot] Harvested ${msg.amount} ${msg.resourceType} (${msg.charges} left) | inventory: wood=${msg.inventory.wood} stone=${msg.inventory.stone} berry=${msg.inventory.berry}`);
+      }
+      break;
+    }
+
+    case ServerMsgType.HarvestStarted: {
+      // Other players' harvests reserve their node until they finish or stop
+      const r = resources.find(res => res.id === msg.resourceId);
+      if (r && msg.playerId !== botId) r.reservedBy = msg.playerId;
+      break;
+    }
+
+    case ServerMsgType.HarvestCancelled: {
+      const r = resources.find(res => res.id === msg.resourceId);
+      if (r) delete r.reservedBy;
+      if (msg.playerId === botId) busy = false;
+      break;
+    }
+
+    case ServerMsgType.ResourceUpdated: {
+      // A harvest out of view ended: the node is free, with fewer charges if it was taken
+      const r = resources.find(res => res.id === msg.resourceId);
+      if (r) {
+        r.charges = msg.charges;
+        r.harvested = msg.charges === 0;
+        delete r.reservedBy;
+      }
+      break;
+    }
+
+    case ServerMsgType.ResourceRespawned: {
+      const r = resources.find(res => res.id === msg.resourceId);
+      if (r) {
+        r.charges = msg.charges;
+        r.harvested = false;
       }
       break;
+    }
 
     case ServerMsgType.DigComplete:
       if (msg.playerId === botId) {
         busy = false;
-        console.log(`[Bot] Dig complete, found: ${msg.found}`);
+        const hint = msg.hint ? ` | ${msg.hint.heat}${msg.hint.bearing !== undefined ? ` toward ${Math.round(msg.hint.bearing * 180 / Math.PI)}°` : ''}` : '';
+        console.log(`[Bot] Dig complete, found: ${msg.found}${hint}`);
       }
       break;
 
@@ -191,6 +264,18 @@ ws.on('message', (raw) => {
       setTimeout(() => process.exit(0), 2000);
       break;
 
+    case ServerMsgType.PayoutFailed:
+      console.log(`[Bot] Payout failed: ${msg.message}`);
+      setTimeout(() => process.exit(0), 2000);
+      break;
+
+    case ServerMsgType.PositionCorrection:
+      console.log(`[Bot] Position corrected: ${msg.reason}`);
+      pos = { ...msg.position };
+      correction = msg.correction;
+      target = null;
+      break;
+
     case ServerMsgType.Error:
       busy = false;
       break;
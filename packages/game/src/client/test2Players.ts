@@ -1,12 +1,20 @@
 import 'dotenv/config';
 import WebSocket from 'ws';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
 import { ClientMsgType, ServerMsgType } from '../shared/protocol.js';
 import type { ServerMsg, HarvestCompleteMsg, MapRevealedMsg } from '../shared/protocol.js';
 import type { ClientMsg } from '../shared/protocol.js';
 import type { Resource, Vec3, Inventory, PlayerUpgrades } from '../shared/types.js';
 import { ResourceType } from '../shared/types.js';
 import { isOnIsland } from '../shared/island.js';
-import { DIG_DURATION_MS } from '../shared/constants.js';
+import { GROUND_Y, PLAYER_CENTER_HEIGHT } from '../shared/constants.js';
+import { GAME_MODES, scaleCost } from '../shared/gameModes.js';
+import type { GameMode } from '../shared/gameModes.js';
+import { MAP_FRAGMENT_COUNT, getRecipe } from '../shared/recipes.js';
+import type { RecipeId } from '../shared/recipes.js';
+import { buildAuthMessage } from '../shared/auth.js';
+import { PROTOCOL_VERSION, decodeMessage, encodeMessage, offeredEncodings } from '../shared/codec.js';
+import type { WireEncoding } from '../shared/codec.js';
 
 const SERVER_URL = process.env.GAME_SERVER_URL || 'ws://localhost:3002';
 
@@ -28,14 +36,22 @@ type MsgFilter = (msg: ServerMsg) => boolean;
 
 class TestPlayer {
   private ws!: WebSocket;
+  private encoding: WireEncoding = 'json';
   pos: Vec3 = { x: 0, y: 0, z: 0 };
+  private positionSeq = 0;
+  private correction = 0;
   id: string | null = null;
   roomId: string | null = null;
   seed: number | null = null;
+  mode: GameMode = GAME_MODES.classic;
   resources: Resource[] = [];
-  harvestedIds = new Set<string>();
+  depletedIds = new Set<string>();
+  /** Nodes another player is harvesting right now. */
+  reservedIds = new Set<string>();
   inventory: Inventory = { wood: 0, stone: 0, berry: 0 };
-  upgrades: PlayerUpgrades = { speedMultiplier: 1, digMultiplier: 1, hasMap: false, digUpgradesTaken: 0 };
+  upgrades: PlayerUpgrades = {
+    speedMultiplier: 1, digMultiplier: 1, hasMap: false, digUpgradesTaken: 0, boots: 0, mapFragments: 0, torches: 0,
+  };
   mapCenter: Vec3 | null = null;
   mapRadius = 0;
   gameStarted = false;
@@ -43,16 +59,34 @@ class TestPlayer {
   private msgQueue: ServerMsg[] = [];
   private waiters: Array<{ filter: MsgFilter; resolve: (msg: ServerMsg) => void }> = [];
 
-  constructor(readonly name: string, private address: string) {}
+  private account = privateKeyToAccount(generatePrivateKey());
+
+  constructor(readonly name: string) {}
 
   connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.ws = new WebSocket(SERVER_URL);
-      this.ws.on('open', () => { this.log('Connected'); resolve(); });
+      this.ws.on('open', () => {
+        this.log(`Connected as ${this.account.address}`);
+        this.send({ type: ClientMsgType.Hello, version: PROTOCOL_VERSION, encodings: offeredEncodings(process.env.WIRE_ENCODING) });
+      });
       this.ws.on('error', reject);
-      this.ws.on('message', (raw) => {
+      this.ws.on('message', async (raw, isBinary) => {
         let msg: ServerMsg;
-        try { msg = JSON.parse(raw.toString()); } catch { return; }
+        try { msg = decodeMessage(isBinary ? raw as Buffer : raw.toString()); } catch { return; }
+        if (msg.type === ServerMsgType.Welcome) {
+          this.encoding = msg.encoding;
+          return;
+        }
+        if (msg.type === ServerMsgType.AuthChallenge) {
+          const signature = await this.account.signMessage({ message: buildAuthMessage(msg.nonce) });
+          this.send({ type: ClientMsgType.Authenticate, address: this.account.address, signature });
+          return;
+        }
+        if (msg.type === ServerMsgType.Authenticated) {
+          resolve();
+          return;
+        }
         this.dispatch(msg);
       });
       this.ws.on('close', () => this.log('Disconnected'));
@@ -63,6 +97,7 @@ class TestPlayer {
     if (msg.type === ServerMsgType.RoomJoined) {
       this.id = msg.playerId;
       this.roomId = msg.roomId;
+      this.mode = msg.mode;
     }
     if (msg.type === ServerMsgType.GameStarted) {
       this.seed = msg.seed;
@@ -73,25 +108,47 @@ class TestPlayer {
       this.gameEnded = true;
       this.log(`Game ended: ${msg.reason}, winner=${msg.winnerId}`);
     }
+    if (msg.type === ServerMsgType.HarvestStarted && msg.playerId !== this.id) {
+      this.reservedIds.add(msg.resourceId);
+    }
+    if (msg.type === ServerMsgType.HarvestCancelled) {
+      this.reservedIds.delete(msg.resourceId);
+    }
     if (msg.type === ServerMsgType.HarvestComplete && 'inventory' in msg) {
       const hc = msg as HarvestCompleteMsg;
-      this.harvestedIds.add(hc.resourceId);
+      this.reservedIds.delete(hc.resourceId);
+      if (hc.charges === 0) this.depletedIds.add(hc.resourceId);
       if (hc.playerId === this.id) {
         this.inventory = hc.inventory;
         this.upgrades = hc.upgrades;
       }
     }
+    if (msg.type === ServerMsgType.ResourceUpdated) {
+      this.reservedIds.delete(msg.resourceId);
+      if (msg.charges === 0) this.depletedIds.add(msg.resourceId);
+    }
+    if (msg.type === ServerMsgType.ResourceRespawned) {
+      this.depletedIds.delete(msg.resourceId);
+    }
+    if (msg.type === ServerMsgType.PositionCorrection) {
+      this.pos = msg.position;
+      this.correction = msg.correction;
+      this.log(`Position corrected: ${msg.reason}`);
+    }
     if (msg.type === ServerMsgType.MapRevealed) {
       const mr = msg as MapRevealedMsg;
       this.mapCenter = mr.center;
       this.mapRadius = mr.radius;
       this.log(`MAP REVEALED: area around (${mr.center.x.toFixed(0)}, ${mr.center.z.toFixed(0)}) r=${mr.radius}`);
     }
-    if (msg.type === ServerMsgType.UpgradeUnlocked && (msg as any).playerId === this.id) {
-      this.log(`Upgrade: ${(msg as any).upgrade} | speed=${this.upgrades.speedMultiplier.toFixed(2)}x dig=${this.upgrades.digMultiplier.toFixed(2)}x map=${this.upgrades.hasMap}`);
+    if (msg.type === ServerMsgType.CraftComplete && msg.playerId === this.id) {
+      this.inventory = msg.inventory;
+      this.upgrades = msg.upgrades;
+      this.log(`Crafted ${msg.recipeId} | speed=${this.upgrades.speedMultiplier.toFixed(2)}x dig=${this.upgrades.digMultiplier.toFixed(2)}x map=${this.upgrades.hasMap}`);
     }
     if (msg.type === ServerMsgType.ChestFound) this.log(`CHEST FOUND by ${msg.playerId}!`);
     if (msg.type === ServerMsgType.PayoutComplete) this.log(`Payout: ${msg.amount} -> ${msg.winnerId}`);
+    if (msg.type === ServerMsgType.PayoutFailed) this.log(`Payout failed: ${msg.message}`);
 
     for (let i = this.waiters.length - 1; i >= 0; i--) {
       if (this.waiters[i].filter(msg)) {
@@ -125,8 +182,8 @@ class TestPlayer {
     return this.waitFor(m => m.type === type && 'playerId' in m && (m as any).playerId === this.id, timeout);
   }
 
-  send(msg: ClientMsg) { this.ws.send(JSON.stringify(msg)); }
-  join() { this.send({ type: ClientMsgType.JoinRoom, address: this.address }); }
+  send(msg: ClientMsg) { this.ws.send(encodeMessage(msg, this.encoding)); }
+  join() { this.send({ type: ClientMsgType.JoinRoom }); }
   confirmWager() { this.send({ type: ClientMsgType.WagerConfirmed }); }
 
   async walkTo(target: Vec3): Promise<void> {
@@ -135,22 +192,36 @@ class TestPlayer {
       const dx = target.x - this.pos.x;
       const dz = target.z - this.pos.z;
       const d = Math.sqrt(dx * dx + dz * dz);
-      this.pos = {
-        x: this.pos.x + (dx / d) * STEP_DIST,
-        y: target.y,
-        z: this.pos.z + (dz / d) * STEP_DIST,
-      };
-      this.send({ type: ClientMsgType.PositionUpdate, position: this.pos });
+      this.pos = this.standingAt(this.pos.x + (dx / d) * STEP_DIST, this.pos.z + (dz / d) * STEP_DIST);
+      this.sendPosition();
       await sleep(STEP_INTERVAL);
     }
-    this.pos = { ...target };
-    this.send({ type: ClientMsgType.PositionUpdate, position: this.pos });
+    this.pos = this.standingAt(target.x, target.z);
+    this.sendPosition();
+  }
+
+  /** Resource heights place models; players stand on the flat ground. */
+  private standingAt(x: number, z: number): Vec3 {
+    return { x, y: GROUND_Y + PLAYER_CENTER_HEIGHT, z };
+  }
+
+  private sendPosition() {
+    this.send({ type: ClientMsgType.PositionUpdate, seq: ++this.positionSeq, correction: this.correction, position: this.pos });
   }
 
   harvest(resourceId: string) { this.send({ type: ClientMsgType.StartHarvest, resourceId }); }
   dig(position: Vec3) { this.send({ type: ClientMsgType.StartDig, position }); }
+  craft(recipeId: RecipeId) { this.send({ type: ClientMsgType.Craft, recipeId }); }
+
+  /** Whether the next tier of `recipeId` exists and the inventory covers it. */
+  canCraft(recipeId: RecipeId): boolean {
+    const recipe = getRecipe(recipeId)!;
+    const tier = recipe.tiers[this.upgrades[recipe.counter]];
+    if (!tier) return false;
+    return Object.entries(scaleCost(tier.cost, this.mode)).every(([item, amount]) => this.inventory[item as keyof Inventory] >= amount);
+  }
   available(type?: ResourceType): Resource[] {
-    return this.resources.filter(r => !this.harvestedIds.has(r.id) && (!type || r.type === type));
+    return this.resources.filter(r => !this.depletedIds.has(r.id) && (!type || r.type === type));
   }
   log(msg: string) { console.log(`[${this.name}] ${msg}`); }
 }
@@ -182,6 +253,7 @@ async function harvestResources(player: TestPlayer, targets: Resource[]): Promis
     if (player.gameEnded) return;
     await player.walkTo(res.position);
     if (player.gameEnded) return;
+    if (player.reservedIds.has(res.id) || player.depletedIds.has(res.id)) continue;
     player.harvest(res.id);
     const result = await Promise.race([
       player.waitMyAction(ServerMsgType.HarvestComplete, 10_000).then(() => 'ok' as const),
@@ -191,6 +263,18 @@ async function harvestResources(player: TestPlayer, targets: Resource[]): Promis
   }
 }
 
+/** Crafts `recipeId` for as long as the player can afford its next tier. */
+async function craftWhilePossible(player: TestPlayer, recipeId: RecipeId): Promise<void> {
+  while (player.canCraft(recipeId) && !player.gameEnded) {
+    player.craft(recipeId);
+    const result = await Promise.race([
+      player.waitMyAction(ServerMsgType.CraftComplete, 15_000).then(() => 'ok' as const),
+      player.waitFor(m => m.type === ServerMsgType.Error, 15_000).then(() => 'error' as const),
+    ]).catch(() => 'timeout' as const);
+    if (result !== 'ok') return;
+  }
+}
+
 async function searchAndDig(player: TestPlayer, searchPoints: Vec3[]): Promise<boolean> {
   let digCount = 0;
   const total = searchPoints.length;
@@ -206,8 +290,8 @@ async function searchAndDig(player: TestPlayer, searchPoints: Vec3[]): Promise<b
     player.dig(spot);
 
     const result = await Promise.race([
-      player.waitFor(m => m.type === ServerMsgType.ChestFound, DIG_DURATION_MS + 10_000).then(() => 'found' as const),
-      player.waitMyAction(ServerMsgType.DigComplete, DIG_DURATION_MS + 10_000).then(() => 'miss' as const),
+      player.waitFor(m => m.type === ServerMsgType.ChestFound, player.mode.durations.digMs + 10_000).then(() => 'found' as const),
+      player.waitMyAction(ServerMsgType.DigComplete, player.mode.durations.digMs + 10_000).then(() => 'miss' as const),
     ]);
     if (result === 'found') {
       player.log(`Found chest on dig #${digCount}!`);
@@ -218,22 +302,26 @@ async function searchAndDig(player: TestPlayer, searchPoints: Vec3[]): Promise<b
 }
 
 // ═══════════════════════════════════════════════════════════════
-// STRATEGY 1: "Scout" -- Collect berries for speed, gather 50
-// wood for treasure map, then search the revealed area
+// STRATEGY 1: "Scout" -- Collect berries for boots, gather wood
+// for every map fragment, then search the revealed area
 // ═══════════════════════════════════════════════════════════════
 async function scoutStrategy(player: TestPlayer): Promise<void> {
-  // Phase A: Grab berries for speed boost
-  const nearBerries = sortByDistance(player.pos, player.available(ResourceType.Berry)).slice(0, 10);
-  player.log(`Gathering ${nearBerries.length} berries for speed...`);
-  await harvestResources(player, nearBerries);
+  // Phase A: Grab berries and a little wood for boots
+  const nearBerries = sortByDistance(player.pos, player.available(ResourceType.Berry)).slice(0, 4);
+  const nearWood = sortByDistance(player.pos, player.available(ResourceType.Wood)).slice(0, 2);
+  player.log(`Gathering ${nearBerries.length} berries for boots...`);
+  await harvestResources(player, [...nearBerries, ...nearWood]);
+  await craftWhilePossible(player, 'boots');
   if (player.gameEnded) return;
   player.log(`Speed now: ${player.upgrades.speedMultiplier.toFixed(2)}x`);
 
-  // Phase B: Gather wood until we hit 50 for the map
-  while (player.inventory.wood < 50 && !player.gameEnded) {
-    const batch = sortByDistance(player.pos, player.available(ResourceType.Wood)).slice(0, 15);
+  // Phase B: Gather wood and craft map fragments until the map is whole
+  while (player.upgrades.mapFragments < MAP_FRAGMENT_COUNT && !player.gameEnded) {
+    await craftWhilePossible(player, 'map_fragment');
+    if (player.upgrades.mapFragments >= MAP_FRAGMENT_COUNT) break;
+    const batch = sortByDistance(player.pos, player.available(ResourceType.Wood)).slice(0, 8);
     if (batch.length === 0) break;
-    player.log(`Gathering wood for map (have ${player.inventory.wood}/50)...`);
+    player.log(`Gathering wood for map fragment ${player.upgrades.mapFragments + 1}/${MAP_FRAGMENT_COUNT} (have ${player.inventory.wood})...`);
     await harvestResources(player, batch);
   }
   if (player.gameEnded) return;
@@ -262,12 +350,13 @@ async function scoutStrategy(player: TestPlayer): Promise<void> {
 }
 
 // ═══════════════════════════════════════════════════════════════
-// STRATEGY 2: "Miner" -- Collect stone + wood equally for dig
-// speed upgrades, then brute-force search with fast digging
+// STRATEGY 2: "Miner" -- Collect stone + wood equally to craft
+// every shovel tier, then brute-force search with fast digging
 // ═══════════════════════════════════════════════════════════════
 async function minerStrategy(player: TestPlayer): Promise<void> {
-  // Phase A: Collect stone and wood in pairs for dig upgrades (target 4 upgrades = 20 each)
-  while (player.upgrades.digUpgradesTaken < 4 && !player.gameEnded) {
+  // Phase A: Collect stone and wood in pairs and craft shovels as they become affordable
+  const shovelTiers = getRecipe('shovel')!.tiers.length;
+  while (player.upgrades.digUpgradesTaken < shovelTiers && !player.gameEnded) {
     const nearStone = sortByDistance(player.pos, player.available(ResourceType.Stone)).slice(0, 5);
     const nearWood = sortByDistance(player.pos, player.available(ResourceType.Wood)).slice(0, 5);
     if (nearStone.length === 0 && nearWood.length === 0) break;
@@ -276,15 +365,17 @@ async function minerStrategy(player: TestPlayer): Promise<void> {
       if (i < nearStone.length) batch.push(nearStone[i]);
       if (i < nearWood.length) batch.push(nearWood[i]);
     }
-    player.log(`Gathering for dig upgrades (${player.upgrades.digUpgradesTaken} upgrades so far)...`);
+    player.log(`Gathering for shovels (tier ${player.upgrades.digUpgradesTaken} so far)...`);
     await harvestResources(player, batch);
+    await craftWhilePossible(player, 'shovel');
   }
   if (player.gameEnded) return;
-  player.log(`Dig speed now: ${player.upgrades.digMultiplier.toFixed(2)}x (${player.upgrades.digUpgradesTaken} upgrades)`);
+  player.log(`Dig speed now: ${player.upgrades.digMultiplier.toFixed(2)}x (shovel tier ${player.upgrades.digUpgradesTaken})`);
 
-  // Phase B: Grab some berries for speed
+  // Phase B: Grab some berries for boots
   const berries = sortByDistance(player.pos, player.available(ResourceType.Berry)).slice(0, 5);
   await harvestResources(player, berries);
+  await craftWhilePossible(player, 'boots');
   if (player.gameEnded) return;
 
   // Phase C: Brute-force search east half of island with fast digging
@@ -299,19 +390,19 @@ async function run() {
   console.log('Player1 = Scout (berries + map)');
   console.log('Player2 = Miner (dig speed upgrades)\n');
 
-  const p1 = new TestPlayer('Scout ', '0x1111111111111111111111111111111111111111');
-  const p2 = new TestPlayer('Miner ', '0x2222222222222222222222222222222222222222');
+  const p1 = new TestPlayer('Scout ');
+  const p2 = new TestPlayer('Miner ');
 
   console.log('--- Connect ---');
   await Promise.all([p1.connect(), p2.connect()]);
 
+  // Test players never transfer funds; the server must run with VERIFY_WAGERS=false.
   console.log('--- Join & Wager ---');
+  // Both queue together; the matchmaker only opens a room once it has a group.
   p1.join();
-  await p1.waitType(ServerMsgType.RoomJoined);
-  await p1.waitType(ServerMsgType.WagerRequired);
   p2.join();
-  await p2.waitType(ServerMsgType.RoomJoined);
-  await p2.waitType(ServerMsgType.WagerRequired);
+  await Promise.all([p1.waitType(ServerMsgType.RoomJoined), p2.waitType(ServerMsgType.RoomJoined)]);
+  await Promise.all([p1.waitType(ServerMsgType.WagerRequired), p2.waitType(ServerMsgType.WagerRequired)]);
 
   p1.confirmWager();
   await p1.waitType(ServerMsgType.WagerAccepted);
@@ -340,7 +431,7 @@ async function run() {
   await race;
 
   if (!p1.gameEnded) await p1.waitType(ServerMsgType.GameEnded, 15_000);
-  await p1.waitType(ServerMsgType.PayoutComplete, 15_000);
+  await p1.waitFor(m => m.type === ServerMsgType.PayoutComplete || m.type === ServerMsgType.PayoutFailed, 60_000);
 
   console.log('\n=== Test Complete ===');
   await sleep(1000);
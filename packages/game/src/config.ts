@@ -1,3 +1,6 @@
+import { END_RULES } from './shared/types.js';
+import { GAME_MODE_IDS } from './shared/gameModes.js';
+
 export const config = {
   privateKey: process.env.PRIVATE_KEY as `0x${string}`,
   port: parseInt(process.env.GAME_PORT || '3002', 10),
@@ -6,5 +9,29 @@ export const config = {
   yellowCustody: (process.env.YELLOW_CUSTODY || '0x019B65A265EB3363822f2752141b3dF16131b262') as `0x${string}`,
   yellowAdjudicator: (process.env.YELLOW_ADJUDICATOR || '0x7c7ccbc98469190849BCC6c926307794fDfB11F2') as `0x${string}`,
   wagerAmount: parseInt(process.env.WAGER_AMOUNT || '5', 10),
+  maxWagerAmount: parseInt(process.env.MAX_WAGER_AMOUNT || '100', 10),
+  matchTiers: (process.env.MATCH_TIERS || '1,5,25').split(',').map(t => parseFloat(t)).filter(t => t > 0),
+  matchQueueTimeoutMs: parseInt(process.env.MATCH_QUEUE_TIMEOUT_MS || '120000', 10),
+  allowedAssets: (process.env.ALLOWED_ASSETS || 'ytest.usd').split(',').map(a => a.trim()).filter(Boolean),
+  verifyWagers: process.env.VERIFY_WAGERS !== 'false',
+  // How matchmade rooms, and private rooms that don't choose, settle a timeout.
+  endRule: END_RULES.find(r => r === process.env.END_RULE) ?? 'refund',
+  // Game mode for matchmade rooms and private rooms that don't choose one.
+  gameMode: GAME_MODE_IDS.find(m => m === process.env.GAME_MODE) ?? 'classic',
+  wagerVerifyTimeoutMs: parseInt(process.env.WAGER_VERIFY_TIMEOUT_MS || '30000', 10),
+  ledgerPath: process.env.LEDGER_PATH || 'data/ledger.jsonl',
+  violationLogPath: process.env.VIOLATION_LOG_PATH || 'data/violations.jsonl',
+  // Empty disables replay recording.
+  replayDir: process.env.REPLAY_DIR ?? 'data/replays',
+  backendUrl: process.env.BACKEND_URL || 'http://localhost:3001',
+  matchReportKey: process.env.MATCH_REPORT_KEY || '',
   rpcUrl: process.env.RPC_URL || 'https://1rpc.io/sepolia',
 };
+
+// Tuning these moved into the game modes in shared/gameModes.ts; an old .env that still sets them has no effect.
+const REMOVED_ENV = ['HARVEST_DURATION_MS', 'DIG_DURATION_MS', 'MAX_SPEED', 'COUNTDOWN_MS', 'GAME_TIMEOUT_MS', 'CHEST_FIND_RADIUS'];
+for (const name of REMOVED_ENV) {
+  if (process.env[name] !== undefined) {
+    console.warn(`[Config] ${name} is no longer read; timings and distances now come from the game mode (GAME_MODE=${config.gameMode})`);
+  }
+}
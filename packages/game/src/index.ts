@@ -1,7 +1,9 @@
 import 'dotenv/config';
 import { YellowService } from './server/YellowService.js';
 import { WagerManager } from './server/WagerManager.js';
+import { WagerLedger } from './server/WagerLedger.js';
 import { GameServer } from './server/GameServer.js';
+import { BackendRatings } from './server/BackendRatings.js';
 import { config } from './config.js';
 
 process.on('unhandledRejection', (e) => console.error('UNHANDLED REJECTION:', e));
@@ -18,8 +20,11 @@ async function main() {
   await yellowService.connect();
   console.log('[Game] Yellow service connected');
 
-  const wagerManager = new WagerManager(yellowService);
-  const gameServer = new GameServer(yellowService, wagerManager);
+  const ledger = new WagerLedger(config.ledgerPath);
+  const wagerManager = new WagerManager(yellowService, ledger);
+  await wagerManager.recoverUnsettled();
+
+  const gameServer = new GameServer(yellowService, wagerManager, new BackendRatings());
   gameServer.start();
 
   console.log('[Game] Server ready');
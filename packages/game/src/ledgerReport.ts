@@ -0,0 +1,29 @@
+import 'dotenv/config';
+import { WagerLedger } from './server/WagerLedger.js';
+import { config } from './config.js';
+
+const ledger = new WagerLedger(config.ledgerPath);
+const rooms = ledger.unsettledRooms();
+
+if (rooms.length === 0) {
+  console.log('All funded rooms are settled.');
+  process.exit(0);
+}
+
+console.log(`${rooms.length} unsettled room(s):\n`);
+for (const room of rooms) {
+  const pot = ledger.pot(room);
+  const owed = ledger.unpaidShares(room).map(s => `${s.address} ${s.amount}`).join(', ');
+  const state = room.winnerAddress || room.shares ? `payout pending (${owed || 'all paid'})` : 'refund pending';
+  console.log(`${room.roomId} | seed=${room.seed ?? '?'} | pot=${pot} | ${state} | failures=${room.failures}`);
+  for (const w of room.wagers) {
+    const status = room.refunded.has(w.playerId) ? ' (refunded)' : room.withdrawn.has(w.playerId) ? ' (withdrawn)' : '';
+    console.log(`  ${w.playerId} ${w.address} ${w.amount} ${w.asset}${status}`);
+  }
+}
+
+console.log('\nOutstanding by address:');
+for (const [key, amount] of ledger.outstanding()) {
+  const [address, asset] = key.split(' ');
+  console.log(`  ${address} ${amount} ${asset}`);
+}
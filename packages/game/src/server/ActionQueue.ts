@@ -1,26 +1,51 @@
 import type { PlayerSession } from './PlayerSession.js';
 
+interface PendingAction {
+  session: PlayerSession;
+  endsAt: number;
+  /** Increasing start order, used to break ties between actions ending at the same time. */
+  order: number;
+  onComplete: () => void;
+  /** Runs if the action is cancelled or replaced before it finishes. */
+  onCancel?: () => void;
+}
+
 export class ActionQueue {
+  private actions = new Map<string, PendingAction>();
+  private started = 0;
+
   startAction(
     session: PlayerSession,
-    type: 'harvesting' | 'digging',
-    duration: number,
-    onComplete: () => void
+    type: Exclude<PlayerSession['currentAction'], 'idle'>,
+    endsAt: number,
+    onComplete: () => void,
+    onCancel?: () => void
   ) {
     this.cancelAction(session);
     session.currentAction = type;
-    session.actionTimer = setTimeout(() => {
-      session.currentAction = 'idle';
-      session.actionTimer = null;
-      onComplete();
-    }, duration);
+    this.actions.set(session.id, { session, endsAt, order: ++this.started, onComplete, onCancel });
   }
 
   cancelAction(session: PlayerSession) {
-    if (session.actionTimer) {
-      clearTimeout(session.actionTimer);
-      session.actionTimer = null;
-    }
+    const action = this.actions.get(session.id);
+    this.actions.delete(session.id);
     session.currentAction = 'idle';
+    action?.onCancel?.();
+  }
+
+  /**
+   * Removes and returns every action finished by `now`. They come back in the
+   * order they finished, and actions finishing at the same moment come back
+   * in the order they were started.
+   */
+  due(now: number): PendingAction[] {
+    const finished = Array.from(this.actions.values())
+      .filter(a => a.endsAt <= now)
+      .sort((a, b) => a.endsAt - b.endsAt || a.order - b.order);
+    for (const action of finished) {
+      this.actions.delete(action.session.id);
+      action.session.currentAction = 'idle';
+    }
+    return finished;
   }
 }
@@ -0,0 +1,27 @@
+import { config } from '../config.js';
+
+export const DEFAULT_RATING = 1200;
+const RATING_LOOKUP_TIMEOUT_MS = 3_000;
+
+export interface RatingProvider {
+  getRating(address: string): Promise<number>;
+}
+
+/**
+ * Ratings read from the backend's player API, the same ones its leaderboard
+ * shows. The backend keeps them up to date from the matches MatchReporter
+ * posts, and answers DEFAULT_RATING for players it has not seen yet.
+ */
+export class BackendRatings implements RatingProvider {
+  async getRating(address: string): Promise<number> {
+    if (!config.backendUrl) return DEFAULT_RATING;
+
+    const res = await fetch(`${config.backendUrl}/api/players/${address}`, {
+      signal: AbortSignal.timeout(RATING_LOOKUP_TIMEOUT_MS),
+    });
+    if (!res.ok) throw new Error(`Backend returned ${res.status}`);
+    const { rating } = await res.json() as { rating?: unknown };
+    if (typeof rating !== 'number') throw new Error('Backend sent no rating');
+    return rating;
+  }
+}
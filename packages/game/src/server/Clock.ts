@@ -0,0 +1,79 @@
+/**
+ * Time source for the simulation. Rooms take game time and timers only from
+ * their clock, so a ManualClock can step a room tick by tick (see
+ * simulateMatch.ts). Wall-clock reads remain only where a time is compared
+ * with the broker's, such as when a wager was requested.
+ */
+export interface Clock {
+  now(): number;
+  /** Calls `fn` every `ms` until the returned function is called. */
+  every(ms: number, fn: () => void): () => void;
+  /** Calls `fn` once after `ms`, unless the returned function is called first. */
+  after(ms: number, fn: () => void): () => void;
+}
+
+export class RealClock implements Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  every(ms: number, fn: () => void): () => void {
+    const timer = setInterval(fn, ms);
+    return () => clearInterval(timer);
+  }
+
+  after(ms: number, fn: () => void): () => void {
+    const timer = setTimeout(fn, ms);
+    return () => clearTimeout(timer);
+  }
+}
+
+interface ManualTimer {
+  /** Repeat interval, or null for a one-shot timer. */
+  ms: number | null;
+  next: number;
+  fn: () => void;
+}
+
+/** A clock that only moves when `advance` is called. */
+export class ManualClock implements Clock {
+  private time: number;
+  private timers = new Set<ManualTimer>();
+
+  constructor(start = 0) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  every(ms: number, fn: () => void): () => void {
+    const timer: ManualTimer = { ms, next: this.time + ms, fn };
+    this.timers.add(timer);
+    return () => { this.timers.delete(timer); };
+  }
+
+  after(ms: number, fn: () => void): () => void {
+    const timer: ManualTimer = { ms: null, next: this.time + ms, fn };
+    this.timers.add(timer);
+    return () => { this.timers.delete(timer); };
+  }
+
+  /** Moves time forward by `ms`, firing every timer that falls due on the way, in time order. */
+  advance(ms: number) {
+    const target = this.time + ms;
+    for (;;) {
+      let due: ManualTimer | null = null;
+      for (const timer of this.timers) {
+        if (timer.next <= target && (!due || timer.next < due.next)) due = timer;
+      }
+      if (!due) break;
+      this.time = due.next;
+      if (due.ms === null) this.timers.delete(due);
+      else due.next += due.ms;
+      due.fn();
+    }
+    this.time = target;
+  }
+}
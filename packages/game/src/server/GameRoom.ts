@@ -1,46 +1,122 @@
 import { RoomPhase, ResourceType } from '../shared/types.js';
-import type { PlayerState, Resource, Vec3 } from '../shared/types.js';
+import type { DigHint, Inventory, PlayerState, Resource, RoomSettings, Trap, Vec3 } from '../shared/types.js';
 import { ServerMsgType, ClientMsgType } from '../shared/protocol.js';
-import type { ClientMsg, ServerMsg } from '../shared/protocol.js';
+import type { ClientMsg, PositionUpdateMsg, ServerMsg } from '../shared/protocol.js';
 import {
-  MIN_PLAYERS, MAX_PLAYERS, GAME_TIMEOUT_MS, HARVEST_DURATION_MS,
-  DIG_DURATION_MS, CHEST_FIND_RADIUS, MAX_SPEED, SPEED_TOLERANCE,
-  HARVEST_PROXIMITY, COUNTDOWN_MS, SYNC_BROADCAST_RATE_MS,
-  BERRY_SPEED_BONUS, DIG_UPGRADE_STONE_COST, DIG_UPGRADE_WOOD_COST,
-  DIG_UPGRADE_MULTIPLIER, MAP_WOOD_COST, MAP_REVEAL_RADIUS,
+  SPEED_TOLERANCE, HARVEST_PROXIMITY, SYNC_BROADCAST_RATE_MS, TICK_MS,
+  GROUND_Y, PLAYER_CENTER_HEIGHT, GROUND_TOLERANCE, MAX_HEIGHT_ABOVE_GROUND, MAX_MOVE_GAP_MS,
+  VIEW_RADIUS, INTEREST_CELL_SIZE,
 } from '../shared/constants.js';
-import { generateChestPosition, generateResources, isOnIsland } from '../shared/island.js';
+import { GAME_MODES, getGameMode, scaleCost } from '../shared/gameModes.js';
+import type { GameMode } from '../shared/gameModes.js';
+import {
+  generateChestPosition, generateResources, getSpawnPosition,
+  isOnIsland, isPathWalkable, isWalkable,
+} from '../shared/island.js';
+import { MAP_FRAGMENT_COUNT, getRecipe } from '../shared/recipes.js';
+import type { Recipe, RecipeCost, UpgradeEffect } from '../shared/recipes.js';
+import {
+  PVP_RANGE, SHOVE_COOLDOWN_MS, STEAL_DURATION_MS, STEAL_COOLDOWN_MS,
+  TRAP_PLANT_MS, TRAP_RADIUS, TRAP_STALL_MS, MAX_TRAPS_PER_PLAYER,
+} from '../shared/pvp.js';
 import type { PlayerSession } from './PlayerSession.js';
 import { ActionQueue } from './ActionQueue.js';
+import { RealClock } from './Clock.js';
+import type { Clock } from './Clock.js';
 import type { WagerManager } from './WagerManager.js';
+import type { MatchReport } from './MatchReporter.js';
+import { ReplayRecorder } from './ReplayRecorder.js';
+import { StateSync } from './StateSync.js';
+import { InterestGrid } from './InterestGrid.js';
 import { config } from '../config.js';
 
 let roomCounter = 0;
 
+const SYNC_EVERY_TICKS = Math.max(1, Math.round(SYNC_BROADCAST_RATE_MS / TICK_MS));
+
+/** StateSync history holding the unfiltered snapshots written to the replay. */
+const REPLAY_VIEWER = 'replay';
+
+/** Client messages that change the simulation and are applied on the next tick. */
+type SimulationInput = Extract<ClientMsg, {
+  type: ClientMsgType.PositionUpdate | ClientMsgType.StartHarvest | ClientMsgType.StartDig
+    | ClientMsgType.CancelHarvest | ClientMsgType.CancelDig | ClientMsgType.Craft | ClientMsgType.CancelCraft
+    | ClientMsgType.Shove | ClientMsgType.Steal | ClientMsgType.PlantTrap;
+}>;
+
+function planarDistance(a: Vec3, b: Vec3): number {
+  const dx = a.x - b.x;
+  const dz = a.z - b.z;
+  return Math.sqrt(dx * dx + dz * dz);
+}
+
+/** What a thief takes: the item `inventory` holds most of, or null if it is empty. */
+function mostHeldItem(inventory: Inventory): keyof Inventory | null {
+  let best: keyof Inventory | null = null;
+  for (const item of ['wood', 'stone', 'berry'] as const) {
+    if (inventory[item] > (best ? inventory[best] : 0)) best = item;
+  }
+  return best;
+}
+
+/**
+ * One match, simulated on a fixed tick. Each tick applies the inputs that
+ * arrived since the last one in arrival order, then completes finished
+ * actions in the order they finished, so the outcome depends only on the
+ * inputs and the clock rather than on timer scheduling.
+ */
 export class GameRoom {
   readonly id: string;
+  /** The rules this room plays by, chosen in its settings. */
+  readonly mode: GameMode;
   phase: RoomPhase = RoomPhase.Lobby;
   private seed: number;
   private players = new Map<string, PlayerSession>();
   private resources: Resource[] = [];
+  /** Nodes waiting to regrow, in no particular order. */
+  private depleted: Resource[] = [];
+  private traps: Trap[] = [];
+  private trapCounter = 0;
   private chestPosition: Vec3;
-  createdAt = Date.now();
-  private countdownTimer: ReturnType<typeof setTimeout> | null = null;
+  createdAt: number;
   private actionQueue = new ActionQueue();
-  private syncInterval: ReturnType<typeof setInterval> | null = null;
-  onEmpty?: () => void;
+  private sync = new StateSync();
+  private interest = new InterestGrid(INTEREST_CELL_SIZE);
+  private inputs: { session: PlayerSession; msg: SimulationInput }[] = [];
+  private tick = 0;
+  private stopTicking: (() => void) | null;
+  private startsAt: number | null = null;
+  private endsAt = 0;
+  private startedAt = 0;
+  /** Everyone who was in the room when the match began, including players who later left. */
+  private participants: MatchReport['players'] = [];
+  private replay: ReplayRecorder | null = null;
+  /** Called once the room is done with: everyone left, or it ended and was cleaned up. */
+  onClosed?: () => void;
+  onEnded?: (report: MatchReport) => void;
 
+  /**
+   * `inviteCode` is set for private rooms, which are never matched into by a
+   * plain JoinRoom. Pass a ManualClock as `clock` to step the room by hand.
+   */
   constructor(
     private wagerManager: WagerManager,
     private serverAddress: string,
+    readonly settings: RoomSettings,
+    readonly inviteCode: string | null = null,
+    private clock: Clock = new RealClock(),
   ) {
-    this.id = `room_${++roomCounter}_${Date.now().toString(36)}`;
+    this.createdAt = this.clock.now();
+    this.id = `room_${++roomCounter}_${this.createdAt.toString(36)}`;
+    this.mode = getGameMode(settings.mode) ?? GAME_MODES.classic;
     this.seed = Math.floor(Math.random() * 1_000_000);
     this.chestPosition = generateChestPosition(this.seed);
+    this.wagerManager.openRoom(this.id, this.seed);
+    this.stopTicking = this.clock.every(TICK_MS, () => this.step());
   }
 
   get playerCount() { return this.players.size; }
-  get isFull() { return this.players.size >= MAX_PLAYERS; }
+  get isFull() { return this.players.size >= this.settings.maxPlayers; }
 
   addPlayer(session: PlayerSession) {
     if (this.phase !== RoomPhase.Lobby) {
@@ -54,6 +130,7 @@ export class GameRoom {
 
     session.roomId = this.id;
     this.players.set(session.id, session);
+    this.sync.reset(session.id);
 
     session.send({
       type: ServerMsgType.RoomJoined,
@@ -61,57 +138,114 @@ export class GameRoom {
       playerId: session.id,
       phase: this.phase,
       players: this.getPlayerStates(),
+      resumeToken: session.resumeToken,
+      settings: this.settings,
+      inviteCode: this.inviteCode,
+      mode: this.mode,
     });
 
-    session.send({
-      type: ServerMsgType.WagerRequired,
-      amount: config.wagerAmount,
-      serverAddress: this.serverAddress,
-      asset: 'ytest.usd',
-    });
+    // Wall-clock, since it is compared with the broker's transfer timestamps.
+    session.wagerRequestedAt = Date.now();
+    this.requestWager(session);
   }
 
   removePlayer(session: PlayerSession) {
     this.actionQueue.cancelAction(session);
+    this.inputs = this.inputs.filter(input => input.session !== session);
+    this.sync.forget(session.id);
+    this.interest.remove(session.id);
     this.players.delete(session.id);
-    session.roomId = null;
+    if (session.roomId === this.id) session.roomId = null;
 
     this.broadcast({ type: ServerMsgType.PlayerLeft, playerId: session.id });
 
-    if (this.phase === RoomPhase.Lobby && !this.wagerManager.isPlayerWagered(this.id, session.id)) {
-      // no refund needed
-    } else if (this.phase === RoomPhase.Lobby) {
-      this.wagerManager.refundAll(this.id).catch(() => {});
+    if (this.phase === RoomPhase.Lobby && this.wagerManager.isPlayerWagered(this.id, session.id)) {
+      // Only the leaver's stake comes back; everyone else's stays in the pot.
+      this.wagerManager.refundWager(this.id, session.id).catch(() => {});
     }
 
     if (this.players.size === 0) {
       this.cleanup();
-      this.onEmpty?.();
+      this.onClosed?.();
     } else if (this.phase === RoomPhase.Playing && this.players.size < 1) {
       this.endGame(null, 'abandoned');
     }
   }
 
+  /** Lets the rest of the room see the player as disconnected while they have a chance to resume. */
+  markDisconnected(session: PlayerSession) {
+    if (!this.players.has(session.id)) return;
+    console.log(`[Room ${this.id}] Player ${session.id} disconnected`);
+    this.broadcastSync();
+  }
+
+  /**
+   * Brings a session that was just re-attached to a new socket back up to
+   * date. Actions keep running on the server while the player is away, so
+   * whatever they were doing is reported as-is.
+   */
+  resumePlayer(session: PlayerSession) {
+    if (!this.players.has(session.id)) return;
+    console.log(`[Room ${this.id}] Player ${session.id} resumed`);
+    this.sync.reset(session.id);
+    // The new connection numbers its position updates and corrections afresh.
+    session.inputSeq = 0;
+    session.ackedInputSeq = 0;
+    session.correction = 0;
+
+    session.send({
+      type: ServerMsgType.RoomJoined,
+      roomId: this.id,
+      playerId: session.id,
+      phase: this.phase,
+      players: this.viewFor(session, this.getPlayerStates()),
+      resumeToken: session.resumeToken,
+      settings: this.settings,
+      inviteCode: this.inviteCode,
+      mode: this.mode,
+    });
+
+    if (this.phase === RoomPhase.Lobby) {
+      if (!session.wagered && !session.wagerPending) {
+        this.requestWager(session);
+      }
+    } else if (this.phase === RoomPhase.Playing) {
+      session.send({ type: ServerMsgType.GameStarted, seed: this.seed, resources: this.resources, endsAt: this.endsAt });
+      if (session.mapHint) {
+        session.send({ type: ServerMsgType.MapRevealed, ...session.mapHint });
+      }
+      session.send({
+        type: ServerMsgType.SessionResumed,
+        position: session.position,
+        currentAction: session.currentAction,
+        inventory: { ...session.inventory },
+        upgrades: { ...session.upgrades },
+        traps: this.traps.filter(t => t.ownerId === session.id),
+      });
+    }
+
+    this.broadcastSync();
+  }
+
   async handleMessage(session: PlayerSession, msg: ClientMsg) {
     switch (msg.type) {
       case ClientMsgType.WagerConfirmed:
         await this.handleWagerConfirmed(session);
         break;
       case ClientMsgType.PositionUpdate:
-        this.handlePositionUpdate(session, msg.position);
-        break;
       case ClientMsgType.StartHarvest:
-        this.handleStartHarvest(session, msg.resourceId);
-        break;
       case ClientMsgType.StartDig:
-        this.handleStartDig(session, msg.position);
-        break;
       case ClientMsgType.CancelHarvest:
       case ClientMsgType.CancelDig:
-        this.actionQueue.cancelAction(session);
+      case ClientMsgType.Craft:
+      case ClientMsgType.CancelCraft:
+      case ClientMsgType.Shove:
+      case ClientMsgType.Steal:
+      case ClientMsgType.PlantTrap:
+        if (this.phase === RoomPhase.Playing) this.inputs.push({ session, msg });
         break;
-      case ClientMsgType.Ping:
-        session.send({ type: ServerMsgType.Pong, t: msg.t });
+      case ClientMsgType.SyncAck:
+        this.sync.ack(session.id, msg.seq);
         break;
       case ClientMsgType.LeaveRoom:
         this.removePlayer(session);
@@ -121,29 +255,146 @@ export class GameRoom {
     }
   }
 
+  private applyInput(session: PlayerSession, msg: SimulationInput) {
+    switch (msg.type) {
+      case ClientMsgType.PositionUpdate:
+        this.handlePositionUpdate(session, msg);
+        break;
+      case ClientMsgType.StartHarvest:
+        this.handleStartHarvest(session, msg.resourceId);
+        break;
+      case ClientMsgType.StartDig:
+        this.handleStartDig(session, msg.position);
+        break;
+      case ClientMsgType.Craft:
+        this.handleCraft(session, msg.recipeId);
+        break;
+      case ClientMsgType.Shove:
+        this.handleShove(session, msg.targetId);
+        break;
+      case ClientMsgType.Steal:
+        this.handleSteal(session, msg.targetId);
+        break;
+      case ClientMsgType.PlantTrap:
+        this.handlePlantTrap(session);
+        break;
+      case ClientMsgType.CancelHarvest:
+      case ClientMsgType.CancelDig:
+      case ClientMsgType.CancelCraft:
+        if (session.currentAction !== 'idle') this.replay?.client(session.id, msg);
+        this.actionQueue.cancelAction(session);
+        break;
+    }
+  }
+
+  private step() {
+    this.tick++;
+    const now = this.clock.now();
+
+    if (this.phase === RoomPhase.Lobby) {
+      if (this.startsAt !== null && now >= this.startsAt) this.startGame();
+      return;
+    }
+    if (this.phase !== RoomPhase.Playing) return;
+
+    const inputs = this.inputs;
+    this.inputs = [];
+    for (const { session, msg } of inputs) {
+      if (this.players.has(session.id)) this.applyInput(session, msg);
+    }
+
+    // If two digs reach the chest in the same tick, the one that finished first wins.
+    for (const action of this.actionQueue.due(now)) {
+      if (this.phase !== RoomPhase.Playing) return;
+      action.onComplete();
+    }
+    if (this.phase !== RoomPhase.Playing) return;
+    this.respawnResources(now);
+
+    if (now >= this.endsAt) {
+      this.endGame(null, 'timeout');
+      return;
+    }
+    this.sendPositionAcks();
+    if (this.tick % SYNC_EVERY_TICKS === 0) this.broadcastSync();
+  }
+
+  private requestWager(session: PlayerSession) {
+    session.send({
+      type: ServerMsgType.WagerRequired,
+      amount: this.settings.wagerAmount,
+      serverAddress: this.serverAddress,
+      asset: this.settings.asset,
+    });
+  }
+
   private async handleWagerConfirmed(session: PlayerSession) {
     if (this.phase !== RoomPhase.Lobby) return;
-    if (session.wagered) return;
+    if (session.wagered || session.wagerPending) return;
 
-    session.wagered = true;
-    this.wagerManager.recordWager(this.id, session.id, session.address, config.wagerAmount);
+    if (config.verifyWagers) {
+      session.wagerPending = true;
+      let verified = false;
+      try {
+        verified = await this.wagerManager.verifyWager(
+          this.id, session.id, session.address, this.settings.wagerAmount, this.settings.asset,
+          session.wagerRequestedAt, config.wagerVerifyTimeoutMs,
+        );
+      } catch (e) {
+        console.error(`[Room ${this.id}] Wager verification error:`, e);
+      }
+      session.wagerPending = false;
+
+      if (!verified) {
+        session.send({ type: ServerMsgType.Error, message: 'Wager transfer not received' });
+        return;
+      }
+      if (!this.players.has(session.id) || this.phase !== RoomPhase.Lobby) {
+        // Paid after leaving or after the lobby closed; return just this stake.
+        this.wagerManager.refundWager(this.id, session.id).catch(() => {});
+        return;
+      }
+    } else {
+      this.wagerManager.recordWager(this.id, session.id, session.address, this.settings.wagerAmount, this.settings.asset);
+    }
 
+    session.wagered = true;
     this.broadcast({ type: ServerMsgType.WagerAccepted, playerId: session.id });
     this.checkStartConditions();
   }
 
   private checkStartConditions() {
     const ids = Array.from(this.players.keys());
-    if (ids.length >= MIN_PLAYERS && this.wagerManager.allPlayersWagered(this.id, ids)) {
-      if (this.countdownTimer) return;
-      this.broadcast({ type: ServerMsgType.GameStarting, countdown: COUNTDOWN_MS });
-      this.countdownTimer = setTimeout(() => this.startGame(), COUNTDOWN_MS);
+    if (ids.length >= this.settings.minPlayers && this.wagerManager.allPlayersWagered(this.id, ids)) {
+      if (this.startsAt !== null) return;
+      const countdown = this.mode.durations.countdownMs;
+      this.startsAt = this.clock.now() + countdown;
+      this.broadcast({ type: ServerMsgType.GameStarting, countdown, startsAt: this.startsAt });
     }
   }
 
   private startGame() {
     this.phase = RoomPhase.Playing;
-    this.resources = generateResources(this.seed);
+    this.resources = generateResources(this.seed, this.mode.resources);
+    this.depleted = [];
+    this.traps = [];
+    this.startedAt = this.clock.now();
+    this.endsAt = this.startedAt + this.mode.durations.matchMs;
+    this.participants = Array.from(this.players.values()).map(s => ({ playerId: s.id, address: s.address }));
+    for (const session of this.players.values()) {
+      session.position = getSpawnPosition();
+      session.lastPositionTime = this.startedAt;
+      this.interest.move(session.id, session.position);
+    }
+    if (config.replayDir) {
+      this.replay = new ReplayRecorder(config.replayDir, {
+        roomId: this.id,
+        seed: this.seed,
+        chestPosition: this.chestPosition,
+        settings: this.settings,
+        players: this.participants,
+      }, this.clock);
+    }
 
     console.log(`[Game ${this.id}] Started | seed=${this.seed} | chest=(${this.chestPosition.x.toFixed(1)}, ${this.chestPosition.z.toFixed(1)})`);
 
@@ -151,43 +402,70 @@ export class GameRoom {
       type: ServerMsgType.GameStarted,
       seed: this.seed,
       resources: this.resources,
+      endsAt: this.endsAt,
     });
-
-    this.syncInterval = setInterval(() => this.broadcastSync(), SYNC_BROADCAST_RATE_MS);
-
-    setTimeout(() => {
-      if (this.phase === RoomPhase.Playing) {
-        this.endGame(null, 'timeout');
-      }
-    }, GAME_TIMEOUT_MS);
   }
 
-  private handlePositionUpdate(session: PlayerSession, position: Vec3) {
+  /**
+   * Every update is acknowledged with the resulting server position, which
+   * stays put while the player is busy. Rejected updates are corrected at
+   * once, and later updates the client sent before seeing the correction
+   * are dropped so one violation does not cascade into a string of them.
+   */
+  private handlePositionUpdate(session: PlayerSession, msg: PositionUpdateMsg) {
     if (this.phase !== RoomPhase.Playing) return;
+    if (msg.seq <= session.inputSeq) return;
+    session.inputSeq = msg.seq;
+    if (msg.correction < session.correction) return;
     if (session.currentAction !== 'idle') return;
 
-    const now = Date.now();
-    const dt = (now - session.lastPositionTime) / 1000;
-    if (session.lastPositionTime > 0 && dt > 0) {
-      const dx = position.x - session.position.x;
-      const dz = position.z - session.position.z;
-      const dist = Math.sqrt(dx * dx + dz * dz);
-      const speed = dist / dt;
-      const playerMaxSpeed = MAX_SPEED * session.upgrades.speedMultiplier;
-      if (speed > playerMaxSpeed * SPEED_TOLERANCE) {
-        session.send({ type: ServerMsgType.Error, message: 'Moving too fast' });
-        return;
-      }
+    const now = this.clock.now();
+    const rejection = this.checkMove(session, msg.position, now);
+    if (rejection) {
+      session.send({
+        type: ServerMsgType.PositionCorrection,
+        seq: msg.seq,
+        correction: ++session.correction,
+        position: session.position,
+        reason: rejection,
+      });
+      session.ackedInputSeq = msg.seq;
+      return;
     }
 
-    session.position = position;
+    session.position = msg.position;
     session.lastPositionTime = now;
+    this.interest.move(session.id, msg.position);
+    this.replay?.client(session.id, msg);
+  }
 
-    this.broadcast({
-      type: ServerMsgType.PlayerMoved,
-      playerId: session.id,
-      position,
-    });
+  private sendPositionAcks() {
+    for (const session of this.players.values()) {
+      if (session.inputSeq <= session.ackedInputSeq) continue;
+      session.ackedInputSeq = session.inputSeq;
+      session.send({ type: ServerMsgType.PositionAck, seq: session.inputSeq, position: session.position });
+    }
+  }
+
+  /** Why moving `session` to `to` is not allowed, or null if it is. */
+  private checkMove(session: PlayerSession, to: Vec3, now: number): string | null {
+    if (!isWalkable(to.x, to.z, this.seed)) return 'Off the island';
+
+    // Terrain heights only place objects; players walk on the client's flat ground.
+    const feet = to.y - PLAYER_CENTER_HEIGHT - GROUND_Y;
+    if (feet < -GROUND_TOLERANCE) return 'Below the ground';
+    if (feet > MAX_HEIGHT_ABOVE_GROUND) return 'Too high above the ground';
+
+    // Ticks batch inputs, so two updates can land in one tick; a long silence
+    // must not let the next update cover an arbitrary distance.
+    const elapsedMs = Math.min(Math.max(now - session.lastPositionTime, TICK_MS), MAX_MOVE_GAP_MS);
+    const dx = to.x - session.position.x;
+    const dz = to.z - session.position.z;
+    const speed = Math.sqrt(dx * dx + dz * dz) / (elapsedMs / 1000);
+    if (speed > this.mode.movement.maxSpeed * session.upgrades.speedMultiplier * SPEED_TOLERANCE) return 'Moving too fast';
+
+    if (!isPathWalkable(session.position, to, this.seed)) return 'Crossed water';
+    return null;
   }
 
   private handleStartHarvest(session: PlayerSession, resourceId: string) {
@@ -198,10 +476,18 @@ export class GameRoom {
     }
 
     const resource = this.resources.find(r => r.id === resourceId);
-    if (!resource || resource.harvested) {
+    if (!resource) {
       session.send({ type: ServerMsgType.Error, message: 'Invalid resource' });
       return;
     }
+    if (resource.harvested) {
+      session.send({ type: ServerMsgType.Error, message: 'Resource depleted' });
+      return;
+    }
+    if (resource.reservedBy) {
+      session.send({ type: ServerMsgType.Error, message: 'Resource is being harvested' });
+      return;
+    }
 
     const dx = session.position.x - resource.position.x;
     const dz = session.position.z - resource.position.z;
@@ -210,68 +496,173 @@ export class GameRoom {
       return;
     }
 
-    this.broadcast({ type: ServerMsgType.HarvestStarted, playerId: session.id, resourceId });
+    this.replay?.client(session.id, { type: ClientMsgType.StartHarvest, resourceId });
+    const endsAt = this.clock.now() + this.mode.durations.harvestMs;
+    this.broadcastNear(session, { type: ServerMsgType.HarvestStarted, playerId: session.id, resourceId, endsAt });
 
-    this.actionQueue.startAction(session, 'harvesting', HARVEST_DURATION_MS, () => {
-      resource.harvested = true;
+    // The reservation keeps the node to this player until the harvest ends either way.
+    resource.reservedBy = session.id;
+    this.actionQueue.startAction(session, 'harvesting', endsAt, () => {
+      delete resource.reservedBy;
       this.applyHarvest(session, resource);
+    }, () => {
+      delete resource.reservedBy;
+      if (this.phase !== RoomPhase.Playing) return;
+      const cancelled: ServerMsg = { type: ServerMsgType.HarvestCancelled, playerId: session.id, resourceId };
+      this.broadcastNear(session, cancelled, cancelled, { type: ServerMsgType.ResourceUpdated, resourceId, charges: resource.charges });
     });
   }
 
+  /** Takes one charge of `resource`, starting its respawn timer when it runs out. */
   private applyHarvest(session: PlayerSession, resource: Resource) {
+    const amount = resource.yield;
+    resource.charges--;
+    if (resource.charges <= 0) {
+      resource.harvested = true;
+      resource.respawnsAt = this.clock.now() + resource.respawnMs;
+      this.depleted.push(resource);
+    }
+
+    session.score += amount * this.mode.win.scorePerResource;
     switch (resource.type) {
       case ResourceType.Berry:
-        session.inventory.berry++;
-        session.upgrades.speedMultiplier = 1.0 + session.inventory.berry * BERRY_SPEED_BONUS;
-        session.send({ type: ServerMsgType.UpgradeUnlocked, playerId: session.id, upgrade: 'speed' });
+        session.inventory.berry += amount;
         break;
       case ResourceType.Wood:
-        session.inventory.wood++;
+        session.inventory.wood += amount;
         break;
       case ResourceType.Stone:
-        session.inventory.stone++;
+        session.inventory.stone += amount;
         break;
     }
 
-    // Check dig speed upgrade threshold
-    const possibleDigUpgrades = Math.min(
-      Math.floor(session.inventory.stone / DIG_UPGRADE_STONE_COST),
-      Math.floor(session.inventory.wood / DIG_UPGRADE_WOOD_COST),
-    );
-    if (possibleDigUpgrades > session.upgrades.digUpgradesTaken) {
-      session.upgrades.digUpgradesTaken = possibleDigUpgrades;
-      session.upgrades.digMultiplier = Math.pow(DIG_UPGRADE_MULTIPLIER, possibleDigUpgrades);
-      session.send({ type: ServerMsgType.UpgradeUnlocked, playerId: session.id, upgrade: 'dig_speed' });
-    }
-
-    // Check map unlock
-    if (!session.upgrades.hasMap && session.inventory.wood >= MAP_WOOD_COST) {
-      session.upgrades.hasMap = true;
-      session.send({ type: ServerMsgType.UpgradeUnlocked, playerId: session.id, upgrade: 'map' });
-      // Reveal approximate chest area (offset by random amount within MAP_REVEAL_RADIUS)
-      const angle = Math.random() * Math.PI * 2;
-      const offset = Math.random() * MAP_REVEAL_RADIUS * 0.5;
-      session.send({
-        type: ServerMsgType.MapRevealed,
-        center: {
-          x: this.chestPosition.x + Math.cos(angle) * offset,
-          y: 0,
-          z: this.chestPosition.z + Math.sin(angle) * offset,
-        },
-        radius: MAP_REVEAL_RADIUS,
-      });
-    }
-
-    this.broadcast({
+    const complete: ServerMsg = {
       type: ServerMsgType.HarvestComplete,
       playerId: session.id,
       resourceId: resource.id,
       resourceType: resource.type,
+      amount,
+      charges: resource.charges,
+      respawnsAt: resource.respawnsAt,
       inventory: { ...session.inventory },
       upgrades: { ...session.upgrades },
+    };
+    this.broadcastNear(session, complete, complete, {
+      type: ServerMsgType.ResourceUpdated,
+      resourceId: resource.id,
+      charges: resource.charges,
+      respawnsAt: resource.respawnsAt,
     });
   }
 
+  /** Refills every depleted node whose respawn time has come. */
+  private respawnResources(now: number) {
+    if (this.depleted.length === 0) return;
+    this.depleted = this.depleted.filter(resource => {
+      if (resource.respawnsAt! > now) return true;
+      resource.charges = resource.maxCharges;
+      resource.harvested = false;
+      delete resource.respawnsAt;
+      this.broadcast({ type: ServerMsgType.ResourceRespawned, resourceId: resource.id, charges: resource.charges });
+      return false;
+    });
+  }
+
+  /**
+   * Starts the next tier of `recipeId`. Its cost is checked now but only
+   * spent when the craft completes, so a cancelled craft costs nothing.
+   */
+  private handleCraft(session: PlayerSession, recipeId: string) {
+    if (this.phase !== RoomPhase.Playing) return;
+    if (session.currentAction !== 'idle') {
+      session.send({ type: ServerMsgType.Error, message: 'Already performing action' });
+      return;
+    }
+
+    const recipe = getRecipe(recipeId);
+    if (!recipe) {
+      session.send({ type: ServerMsgType.Error, message: 'Unknown recipe' });
+      return;
+    }
+    const tier = recipe.tiers[session.upgrades[recipe.counter]];
+    if (!tier) {
+      session.send({ type: ServerMsgType.Error, message: `${recipe.name} is fully crafted` });
+      return;
+    }
+    const cost = scaleCost(tier.cost, this.mode);
+    if (!this.canAfford(session, cost)) {
+      session.send({ type: ServerMsgType.Error, message: `Not enough resources for ${recipe.name}` });
+      return;
+    }
+
+    this.replay?.client(session.id, { type: ClientMsgType.Craft, recipeId });
+    const endsAt = this.clock.now() + tier.durationMs;
+    this.broadcastNear(session, { type: ServerMsgType.CraftStarted, playerId: session.id, recipeId, endsAt });
+
+    this.actionQueue.startAction(session, 'crafting', endsAt, () => {
+      // Someone may have robbed the crafter in the meantime.
+      if (!this.canAfford(session, cost)) {
+        session.send({ type: ServerMsgType.Error, message: `Not enough resources left for ${recipe.name}` });
+        return;
+      }
+      this.spend(session, cost);
+      this.applyUpgrade(session, recipe);
+      this.broadcastNear(session, {
+        type: ServerMsgType.CraftComplete,
+        playerId: session.id,
+        recipeId,
+        inventory: { ...session.inventory },
+        upgrades: { ...session.upgrades },
+      });
+    });
+  }
+
+  private canAfford(session: PlayerSession, cost: RecipeCost): boolean {
+    return (Object.entries(cost) as [keyof RecipeCost, number][])
+      .every(([item, amount]) => session.inventory[item] >= amount);
+  }
+
+  private spend(session: PlayerSession, cost: RecipeCost) {
+    for (const [item, amount] of Object.entries(cost) as [keyof RecipeCost, number][]) {
+      session.inventory[item] -= amount;
+    }
+  }
+
+  /** The upgrade pipeline: counts the craft, then applies each of the recipe's effects in turn. */
+  private applyUpgrade(session: PlayerSession, recipe: Recipe) {
+    session.upgrades[recipe.counter]++;
+    session.score += this.mode.win.scorePerUpgrade;
+    for (const effect of recipe.effects) this.applyEffect(session, effect);
+  }
+
+  private applyEffect(session: PlayerSession, effect: UpgradeEffect) {
+    switch (effect.kind) {
+      case 'dig_speed':
+        session.upgrades.digMultiplier *= effect.multiplier;
+        break;
+      case 'move_speed':
+        session.upgrades.speedMultiplier += effect.bonus;
+        break;
+      case 'reveal_map': {
+        // Every fragment shrinks the circle, which always contains the chest.
+        session.upgrades.hasMap = true;
+        const radius = this.mode.hints.mapRevealRadius * (MAP_FRAGMENT_COUNT - session.upgrades.mapFragments + 1);
+        const angle = Math.random() * Math.PI * 2;
+        const offset = Math.random() * radius * 0.5;
+        session.mapHint = {
+          center: {
+            x: this.chestPosition.x + Math.cos(angle) * offset,
+            y: 0,
+            z: this.chestPosition.z + Math.sin(angle) * offset,
+          },
+          radius,
+        };
+        session.send({ type: ServerMsgType.MapRevealed, ...session.mapHint });
+        break;
+      }
+    }
+  }
+
   private handleStartDig(session: PlayerSession, position: Vec3) {
     if (this.phase !== RoomPhase.Playing) return;
     if (session.currentAction !== 'idle') {
@@ -284,63 +675,356 @@ export class GameRoom {
       return;
     }
 
-    this.broadcast({ type: ServerMsgType.DigStarted, playerId: session.id, position });
+    this.replay?.client(session.id, { type: ClientMsgType.StartDig, position });
+    const stall = this.springTrap(session, position) ? TRAP_STALL_MS : 0;
+    const digTime = Math.max(10, Math.floor(this.mode.durations.digMs * session.upgrades.digMultiplier)) + stall;
+    const endsAt = this.clock.now() + digTime;
+    this.broadcastNear(session, { type: ServerMsgType.DigStarted, playerId: session.id, position, endsAt });
 
-    const digTime = Math.max(10, Math.floor(DIG_DURATION_MS * session.upgrades.digMultiplier));
-
-    this.actionQueue.startAction(session, 'digging', digTime, () => {
+    this.actionQueue.startAction(session, 'digging', endsAt, () => {
       const dx = position.x - this.chestPosition.x;
       const dz = position.z - this.chestPosition.z;
       const dist = Math.sqrt(dx * dx + dz * dz);
 
-      if (dist < CHEST_FIND_RADIUS) {
+      if (dist < this.mode.win.chestFindRadius) {
         this.broadcast({ type: ServerMsgType.ChestFound, playerId: session.id, position: this.chestPosition });
         this.endGame(session.id, 'chest_found');
       } else {
-        this.broadcast({ type: ServerMsgType.DigComplete, playerId: session.id, found: false });
+        const { digScoreMax, digScoreRadius } = this.mode.win;
+        const points = Math.round(digScoreMax * Math.max(0, 1 - dist / digScoreRadius));
+        if (points > session.bestDigScore) {
+          session.score += points - session.bestDigScore;
+          session.bestDigScore = points;
+        }
+        const miss = { type: ServerMsgType.DigComplete, playerId: session.id, found: false } as const;
+        const hint = this.mode.hints.enabled ? this.digHint(session, dx, dz, dist) : undefined;
+        this.broadcastNear(session, miss, { ...miss, hint });
       }
     });
   }
 
+  /**
+   * What a miss at offset (`dx`, `dz`) from the chest tells `session`. The
+   * bearing is shifted by up to its stated error, so the chest is always
+   * somewhere in the wedge it describes.
+   */
+  private digHint(session: PlayerSession, dx: number, dz: number, dist: number): DigHint {
+    const { hotDistance, warmDistance, bearingError: baseError, errorFalloff } = this.mode.hints;
+    const heat = dist <= hotDistance ? 'hot' : dist <= warmDistance ? 'warm' : 'cold';
+    const torches = session.upgrades.torches;
+    if (torches === 0) return { heat };
+
+    const bearingError = baseError * Math.pow(errorFalloff, torches - 1);
+    const bearing = Math.atan2(-dz, -dx) + (Math.random() * 2 - 1) * bearingError;
+    return { heat, bearing, bearingError };
+  }
+
+  /** The player `targetId` if they are someone else within PVP_RANGE; otherwise tells `session` why not. */
+  private pvpTarget(session: PlayerSession, targetId: string): PlayerSession | null {
+    const target = this.players.get(targetId);
+    if (!target || target === session) {
+      session.send({ type: ServerMsgType.Error, message: 'Invalid target' });
+      return null;
+    }
+    if (planarDistance(session.position, target.position) > PVP_RANGE) {
+      session.send({ type: ServerMsgType.Error, message: 'Too far from target' });
+      return null;
+    }
+    return target;
+  }
+
+  /** Interrupts whatever the target is doing; a harvest releases its node as if cancelled. */
+  private handleShove(session: PlayerSession, targetId: string) {
+    if (this.phase !== RoomPhase.Playing) return;
+    if (session.currentAction !== 'idle') {
+      session.send({ type: ServerMsgType.Error, message: 'Already performing action' });
+      return;
+    }
+    const now = this.clock.now();
+    if (now < session.shoveReadyAt) {
+      session.send({ type: ServerMsgType.Error, message: 'Shove is cooling down' });
+      return;
+    }
+    const target = this.pvpTarget(session, targetId);
+    if (!target) return;
+
+    this.replay?.client(session.id, { type: ClientMsgType.Shove, targetId });
+    const interrupted = target.currentAction;
+    session.shoveReadyAt = now + SHOVE_COOLDOWN_MS;
+    this.actionQueue.cancelAction(target);
+    this.broadcastNear(session, {
+      type: ServerMsgType.PlayerShoved,
+      playerId: session.id,
+      targetId,
+      interrupted,
+      cooldownEndsAt: session.shoveReadyAt,
+    });
+  }
+
+  /**
+   * Robs the target of one of whatever they hold most of. Range is checked
+   * again when the steal completes, so a target who runs off keeps their
+   * items; the cooldown is spent either way.
+   */
+  private handleSteal(session: PlayerSession, targetId: string) {
+    if (this.phase !== RoomPhase.Playing) return;
+    if (session.currentAction !== 'idle') {
+      session.send({ type: ServerMsgType.Error, message: 'Already performing action' });
+      return;
+    }
+    const now = this.clock.now();
+    if (now < session.stealReadyAt) {
+      session.send({ type: ServerMsgType.Error, message: 'Steal is cooling down' });
+      return;
+    }
+    const target = this.pvpTarget(session, targetId);
+    if (!target) return;
+
+    this.replay?.client(session.id, { type: ClientMsgType.Steal, targetId });
+    const endsAt = now + STEAL_DURATION_MS;
+    session.stealReadyAt = now + STEAL_COOLDOWN_MS;
+    this.broadcastNear(session, {
+      type: ServerMsgType.StealStarted,
+      playerId: session.id,
+      targetId,
+      endsAt,
+      cooldownEndsAt: session.stealReadyAt,
+    });
+
+    this.actionQueue.startAction(session, 'stealing', endsAt, () => {
+      const caught = this.players.has(targetId) && planarDistance(session.position, target.position) <= PVP_RANGE;
+      const item = caught ? mostHeldItem(target.inventory) : null;
+      if (item) {
+        target.inventory[item]--;
+        session.inventory[item]++;
+      }
+      this.broadcastNear(session, {
+        type: ServerMsgType.ItemStolen,
+        playerId: session.id,
+        targetId,
+        item,
+        inventory: { ...session.inventory },
+        targetInventory: { ...target.inventory },
+      });
+    });
+  }
+
+  /**
+   * Plants a trap where the player stands. As with crafting, the cost is
+   * spent once planting completes, and planting fails if it can no longer be paid.
+   */
+  private handlePlantTrap(session: PlayerSession) {
+    if (this.phase !== RoomPhase.Playing) return;
+    if (session.currentAction !== 'idle') {
+      session.send({ type: ServerMsgType.Error, message: 'Already performing action' });
+      return;
+    }
+    if (this.traps.filter(t => t.ownerId === session.id).length >= MAX_TRAPS_PER_PLAYER) {
+      session.send({ type: ServerMsgType.Error, message: 'Too many traps planted' });
+      return;
+    }
+    if (!this.canAfford(session, this.mode.costs.trap)) {
+      session.send({ type: ServerMsgType.Error, message: 'Not enough resources for a trap' });
+      return;
+    }
+
+    this.replay?.client(session.id, { type: ClientMsgType.PlantTrap });
+    const position = { ...session.position };
+    const endsAt = this.clock.now() + TRAP_PLANT_MS;
+    this.broadcastNear(session, { type: ServerMsgType.TrapStarted, playerId: session.id, endsAt });
+
+    this.actionQueue.startAction(session, 'planting', endsAt, () => {
+      if (!this.canAfford(session, this.mode.costs.trap)) {
+        session.send({ type: ServerMsgType.Error, message: 'Not enough resources left for a trap' });
+        return;
+      }
+      this.spend(session, this.mode.costs.trap);
+      const trap: Trap = { id: `trap_${++this.trapCounter}`, ownerId: session.id, position };
+      this.traps.push(trap);
+      session.send({ type: ServerMsgType.TrapPlanted, trap, inventory: { ...session.inventory } });
+    });
+  }
+
+  /** Springs the first trap someone else planted near a dig by `session` at `position`, if any. */
+  private springTrap(session: PlayerSession, position: Vec3): Trap | null {
+    const index = this.traps.findIndex(t => t.ownerId !== session.id && planarDistance(t.position, position) <= TRAP_RADIUS);
+    if (index < 0) return null;
+    const [trap] = this.traps.splice(index, 1);
+    const triggered: ServerMsg = { type: ServerMsgType.TrapTriggered, playerId: session.id, trap, stallMs: TRAP_STALL_MS };
+    this.broadcastNear(session, triggered, triggered, { type: ServerMsgType.TrapRemoved, trapId: trap.id });
+    return trap;
+  }
+
+  /**
+   * Without a chest, the room's end rule decides the outcome: the top scorer
+   * can win outright, or the pot is split by score, or everyone is refunded.
+   * Players who left before the end forfeit their share.
+   */
   private async endGame(winnerId: string | null, reason: 'chest_found' | 'timeout' | 'abandoned') {
     if (this.phase === RoomPhase.Ended) return;
     this.phase = RoomPhase.Ended;
+    this.inputs = [];
 
-    if (this.syncInterval) clearInterval(this.syncInterval);
-    if (this.countdownTimer) clearTimeout(this.countdownTimer);
+    if (!winnerId && this.settings.endRule === 'highest_score') winnerId = this.topScorer();
+    const split = !winnerId && this.settings.endRule === 'proportional' && this.scoreWeights().size > 0;
 
     this.broadcast({ type: ServerMsgType.GameEnded, winnerId, reason });
+    // Players stay to hear how the pot settled, but may queue or open another room meanwhile.
+    for (const session of this.players.values()) {
+      this.actionQueue.cancelAction(session);
+      session.roomId = null;
+    }
 
+    const pot = this.wagerManager.getPot(this.id);
+    const durationMs = this.clock.now() - this.startedAt;
+    // Only a winner who was actually paid is reported as one.
+    let paidWinner: string | null = null;
     try {
-      if (winnerId && reason === 'chest_found') {
+      if (winnerId) {
         const winner = this.players.get(winnerId);
         if (winner) {
-          const pot = this.wagerManager.getPot(this.id);
-          await this.wagerManager.payoutWinner(this.id, winner.address);
-          this.broadcast({ type: ServerMsgType.PayoutComplete, winnerId, amount: pot });
+          const receipt = await this.wagerManager.payoutWinner(this.id, winner.address);
+          if (receipt) paidWinner = winner.address;
+          this.broadcast({
+            type: ServerMsgType.PayoutComplete,
+            winnerId,
+            amount: pot,
+            transactionIds: receipt ? [receipt.transactionId] : [],
+          });
         }
+      } else if (split) {
+        const receipts = await this.wagerManager.splitPot(this.id, this.scoreWeights());
+        this.broadcast({
+          type: ServerMsgType.PayoutComplete,
+          winnerId: null,
+          amount: pot,
+          transactionIds: receipts.map(r => r.transactionId),
+        });
       } else {
-        await this.wagerManager.refundAll(this.id);
-        this.broadcast({ type: ServerMsgType.PayoutComplete, winnerId: null, amount: 0 });
+        const result = await this.wagerManager.refundAll(this.id);
+        if (result.failed > 0) {
+          this.broadcast({
+            type: ServerMsgType.PayoutFailed,
+            winnerId: null,
+            amount: pot,
+            message: `${result.failed} refund(s) failed and were recorded for retry`,
+          });
+        } else {
+          this.broadcast({
+            type: ServerMsgType.PayoutComplete,
+            winnerId: null,
+            amount: 0,
+            transactionIds: result.receipts.map(r => r.transactionId),
+          });
+        }
       }
     } catch (e) {
       console.error(`[Room ${this.id}] Payout error:`, e);
+      this.broadcast({
+        type: ServerMsgType.PayoutFailed,
+        winnerId,
+        amount: pot,
+        message: 'Payout failed and was recorded for retry',
+      });
     }
 
-    setTimeout(() => this.cleanup(), 10_000);
+    if (this.startedAt > 0) {
+      this.onEnded?.({
+        id: this.id,
+        players: this.participants,
+        winnerAddress: paidWinner,
+        reason,
+        durationMs,
+        pot,
+        asset: this.settings.asset,
+        endedAt: new Date(this.clock.now()).toISOString(),
+      });
+    }
+    this.replay?.close();
+    this.clock.after(10_000, () => {
+      this.cleanup();
+      this.players.clear();
+      this.onClosed?.();
+    });
+  }
+
+  /** The one player still in the room with the highest non-zero score, or null on a tie. */
+  private topScorer(): string | null {
+    let best: PlayerSession | null = null;
+    let tied = false;
+    for (const session of this.players.values()) {
+      if (!best || session.score > best.score) {
+        best = session;
+        tied = false;
+      } else if (session.score === best.score) {
+        tied = true;
+      }
+    }
+    return best && best.score > 0 && !tied ? best.id : null;
+  }
+
+  /** Score per address of the players still in the room, leaving out anyone on zero. */
+  private scoreWeights(): Map<string, number> {
+    const weights = new Map<string, number>();
+    for (const session of this.players.values()) {
+      if (session.score <= 0) continue;
+      weights.set(session.address, (weights.get(session.address) ?? 0) + session.score);
+    }
+    return weights;
   }
 
   private broadcast(msg: ServerMsg) {
+    this.replay?.server(msg);
     for (const session of this.players.values()) {
+      // After the end, players who already moved on to another room hear nothing more from this one.
+      if (session.roomId !== null && session.roomId !== this.id) continue;
       session.send(msg);
     }
   }
 
+  /**
+   * Sends `msg` to the players within view of `origin`, `own` (by default
+   * the same message) to `origin` itself, and `far`, if given, to everyone
+   * else. The replay records `msg`.
+   */
+  private broadcastNear(origin: PlayerSession, msg: ServerMsg, own: ServerMsg = msg, far?: ServerMsg) {
+    this.replay?.server(msg);
+    const near = this.interest.near(origin.position, VIEW_RADIUS);
+    for (const session of this.players.values()) {
+      if (session === origin) session.send(own);
+      else if (near.has(session.id)) session.send(msg);
+      else if (far) session.send(far);
+    }
+  }
+
+  /**
+   * Sends each player the latest snapshot as a delta against the one they
+   * last acknowledged. Nothing is sent to players who are already current.
+   */
   private broadcastSync() {
-    this.broadcast({
-      type: ServerMsgType.PlayersSync,
-      players: this.getPlayerStates(),
-    });
+    const players = this.getPlayerStates();
+    const now = this.clock.now();
+    if (this.replay && this.sync.capture(REPLAY_VIEWER, this.tick, now, players)) {
+      const full = this.sync.fullSnapshot(REPLAY_VIEWER);
+      if (full) this.replay.server(full);
+    }
+    for (const session of this.players.values()) {
+      this.sync.capture(session.id, this.tick, now, this.viewFor(session, players));
+      const msg = this.sync.messageFor(session.id);
+      if (msg) session.send(msg);
+    }
+  }
+
+  /**
+   * `players` as `viewer` may see them during a match: others beyond
+   * VIEW_RADIUS are placed at the centre of their grid cell and shown idle.
+   */
+  private viewFor(viewer: PlayerSession, players: PlayerState[]): PlayerState[] {
+    if (this.phase !== RoomPhase.Playing) return players;
+    const near = this.interest.near(viewer.position, VIEW_RADIUS);
+    return players.map(p => p.id === viewer.id || near.has(p.id)
+      ? p
+      : { ...p, position: this.interest.coarse(p.position), currentAction: 'idle' });
   }
 
   private getPlayerStates(): PlayerState[] {
@@ -348,19 +1032,22 @@ export class GameRoom {
       id: s.id,
       address: s.address,
       position: s.position,
-      score: 0,
+      score: s.score,
       currentAction: s.currentAction,
       connected: s.ws.readyState === s.ws.OPEN,
+      latency: s.latency,
       inventory: { ...s.inventory },
       upgrades: { ...s.upgrades },
     }));
   }
 
   private cleanup() {
-    if (this.syncInterval) clearInterval(this.syncInterval);
-    if (this.countdownTimer) clearTimeout(this.countdownTimer);
+    this.replay?.close();
+    this.stopTicking?.();
+    this.stopTicking = null;
+    this.inputs = [];
     for (const session of this.players.values()) {
-      this.actionQueue.cancelAction(session);
+      if (session.roomId === this.id) this.actionQueue.cancelAction(session);
     }
   }
 }
@@ -1,51 +1,269 @@
 import { WebSocketServer } from 'ws';
-import type { ClientMsg } from '../shared/protocol.js';
+import { randomBytes } from 'crypto';
+import { isAddress, verifyMessage } from 'viem';
+import { ClientMsgType, ServerMsgType } from '../shared/protocol.js';
+import type { AuthenticateMsg, ClientMsg, CreateRoomMsg, JoinRoomMsg } from '../shared/protocol.js';
+import { PROTOCOL_VERSION, VERSION_MISMATCH_CLOSE_CODE, decodeMessage, pickEncoding } from '../shared/codec.js';
+import { buildAuthMessage } from '../shared/auth.js';
+import { END_RULES, RoomPhase } from '../shared/types.js';
+import { GAME_MODE_IDS } from '../shared/gameModes.js';
+import type { RoomSettings } from '../shared/types.js';
+import {
+  MAX_FRAME_BYTES, MAX_PLAYERS, MIN_PLAYERS, RECONNECT_GRACE_MS, STRIKE_DECAY_MS,
+  STRIKES_BEFORE_KICK, STRIKES_BEFORE_THROTTLE, THROTTLE_MS, YELLOW_ASSET,
+} from '../shared/constants.js';
 import { PlayerSession } from './PlayerSession.js';
 import { GameRoom } from './GameRoom.js';
+import { Matchmaker } from './Matchmaker.js';
+import type { RatingProvider } from './BackendRatings.js';
+import { MatchReporter } from './MatchReporter.js';
+import { ViolationLog } from './ViolationLog.js';
+import type { ViolationKind } from './ViolationLog.js';
+import { validateClientMsg } from './validation.js';
 import type { YellowService } from './YellowService.js';
 import type { WagerManager } from './WagerManager.js';
 import { config } from '../config.js';
 
+// No 0/O or 1/I so codes survive being read out loud.
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 6;
+const HELLO_TIMEOUT_MS = 10_000;
+
 export class GameServer {
   private wss!: WebSocketServer;
   private rooms = new Map<string, GameRoom>();
   private sessions = new Map<string, PlayerSession>();
+  private matchmaker: Matchmaker;
+  private reporter = new MatchReporter();
+  private violations = new ViolationLog(config.violationLogPath);
 
   constructor(
     private yellowService: YellowService,
     private wagerManager: WagerManager,
-  ) {}
+    ratings: RatingProvider,
+  ) {
+    this.matchmaker = new Matchmaker(ratings, settings => this.createRoom(settings, null));
+  }
 
   start() {
-    this.wss = new WebSocketServer({ port: config.port });
+    this.wss = new WebSocketServer({ port: config.port, maxPayload: MAX_FRAME_BYTES });
     console.log(`[GameServer] Listening on port ${config.port}`);
+    this.matchmaker.start();
 
     this.wss.on('connection', (ws) => {
-      const session = new PlayerSession(ws);
+      // Replaced by the original session if this connection resumes one.
+      let session = new PlayerSession(ws);
       this.sessions.set(session.id, session);
 
-      ws.on('message', (raw) => {
-        let msg: ClientMsg;
-        try { msg = JSON.parse(raw.toString()); }
-        catch { return; }
+      const helloTimer = setTimeout(() => {
+        if (!session.encoding) ws.close(1002, 'No Hello received');
+      }, HELLO_TIMEOUT_MS);
+
+      ws.on('message', (raw, isBinary) => {
+        if (Date.now() < session.throttledUntil) return;
+
+        const data = Array.isArray(raw) ? Buffer.concat(raw) : raw;
+        let decoded: unknown;
+        try { decoded = decodeMessage(isBinary ? new Uint8Array(data) : data.toString()); }
+        catch {
+          this.strike(session, 'malformed', 'Could not decode frame');
+          return;
+        }
+        const result = validateClientMsg(decoded);
+        if (!result.ok) {
+          this.strike(session, 'invalid', result.error);
+          return;
+        }
+        const msg = result.msg;
+        if (!session.rateLimiter.allow(msg.type)) {
+          this.strike(session, 'rate_limited', msg.type);
+          return;
+        }
+
+        if (!session.encoding) {
+          clearTimeout(helloTimer);
+          this.handleHello(session, msg);
+          return;
+        }
+        if (msg.type === ClientMsgType.ResumeSession) {
+          session = this.resumeSession(session, msg.token);
+          return;
+        }
         this.handleMessage(session, msg);
       });
 
-      ws.on('close', () => {
-        if (session.roomId) {
-          const room = this.rooms.get(session.roomId);
-          room?.removePlayer(session);
+      ws.on('error', (e) => {
+        // ws closes the socket itself after this; frames over maxPayload arrive here.
+        if ((e as NodeJS.ErrnoException).code === 'WS_ERR_UNSUPPORTED_MESSAGE_LENGTH') {
+          this.strike(session, 'oversized', `Frame over ${MAX_FRAME_BYTES} bytes`);
         }
-        this.sessions.delete(session.id);
       });
+
+      ws.on('close', () => {
+        clearTimeout(helloTimer);
+        // A resumed session has already moved on to a newer socket.
+        if (session.ws !== ws) return;
+        this.handleDisconnect(session);
+      });
+    });
+  }
+
+  /**
+   * Records a rejected message and escalates: an Error for the first few
+   * strikes, then ignoring all input for THROTTLE_MS, then disconnecting.
+   */
+  private strike(session: PlayerSession, kind: ViolationKind, detail: string) {
+    const now = Date.now();
+    const forgiven = session.lastStrikeAt ? Math.floor((now - session.lastStrikeAt) / STRIKE_DECAY_MS) : 0;
+    session.strikes = Math.max(0, session.strikes - forgiven) + 1;
+    session.lastStrikeAt = now;
+    this.violations.record({
+      address: session.authenticated ? session.address : null,
+      sessionId: session.id,
+      kind,
+      detail,
+      strikes: session.strikes,
     });
+
+    if (session.strikes >= STRIKES_BEFORE_KICK) {
+      console.warn(`[GameServer] Kicking ${session.id} (${session.address || 'unauthenticated'}) after ${session.strikes} strikes`);
+      session.send({ type: ServerMsgType.Error, message: 'Disconnected for sending too many invalid or excessive messages' });
+      session.ws.close(1008, 'Policy violation');
+    } else if (session.strikes >= STRIKES_BEFORE_THROTTLE) {
+      session.throttledUntil = now + THROTTLE_MS;
+      session.send({ type: ServerMsgType.Error, message: `Too many rejected messages; ignoring input for ${THROTTLE_MS / 1000}s` });
+    } else if (kind === 'rate_limited') {
+      session.send({ type: ServerMsgType.Error, message: `Slow down: too many ${detail} messages` });
+    } else {
+      session.send({ type: ServerMsgType.Error, message: `Rejected message: ${detail}` });
+    }
+  }
+
+  /**
+   * Settles the protocol version and wire encoding, then starts
+   * authentication. Clients speaking another version are told why and
+   * disconnected.
+   */
+  private handleHello(session: PlayerSession, msg: ClientMsg) {
+    const reject = (message: string) => {
+      session.send({ type: ServerMsgType.Error, message });
+      session.ws.close(VERSION_MISMATCH_CLOSE_CODE, 'Protocol mismatch');
+    };
+
+    if (msg.type !== ClientMsgType.Hello) {
+      reject(`Expected Hello with protocol version ${PROTOCOL_VERSION}`);
+      return;
+    }
+    if (msg.version !== PROTOCOL_VERSION) {
+      reject(`Protocol version mismatch: server speaks v${PROTOCOL_VERSION}, client sent v${msg.version}. Update your client.`);
+      return;
+    }
+    const encoding = pickEncoding(msg.encodings);
+    if (!encoding) {
+      reject('No supported wire encoding offered');
+      return;
+    }
+
+    // Welcome still goes out as JSON; the chosen encoding applies after it.
+    session.send({ type: ServerMsgType.Welcome, version: PROTOCOL_VERSION, encoding });
+    session.encoding = encoding;
+
+    session.authNonce = randomBytes(16).toString('hex');
+    session.send({ type: ServerMsgType.AuthChallenge, nonce: session.authNonce });
   }
 
-  private handleMessage(session: PlayerSession, msg: ClientMsg) {
-    if (msg.type === 'JoinRoom') {
-      session.address = msg.address;
-      const room = this.findOrCreateRoom();
-      room.addPlayer(session);
+  /**
+   * Players who drop mid-match keep their seat for RECONNECT_GRACE_MS so they
+   * can resume; everyone else is removed straight away.
+   */
+  private handleDisconnect(session: PlayerSession) {
+    this.matchmaker.remove(session);
+    const room = session.roomId ? this.rooms.get(session.roomId) : undefined;
+    if (!room || room.phase === RoomPhase.Ended) {
+      room?.removePlayer(session);
+      this.sessions.delete(session.id);
+      return;
+    }
+
+    room.markDisconnected(session);
+    session.disconnectTimer = setTimeout(() => {
+      session.disconnectTimer = null;
+      console.log(`[GameServer] Resume window expired for ${session.id}`);
+      room.removePlayer(session);
+      this.sessions.delete(session.id);
+    }, RECONNECT_GRACE_MS);
+  }
+
+  /**
+   * Moves `current`'s socket onto the session that issued `token` and returns
+   * whichever session the connection should use from now on. The token stands
+   * in for a signature, so a resumed connection does not re-authenticate.
+   */
+  private resumeSession(current: PlayerSession, token: string): PlayerSession {
+    const fail = (reason: string) => {
+      current.send({ type: ServerMsgType.ResumeFailed, reason });
+      return current;
+    };
+
+    if (current.roomId || this.matchmaker.isQueued(current)) return fail('Already in a room');
+
+    const target = Array.from(this.sessions.values()).find(s => s.resumeToken === token);
+    const room = target?.roomId ? this.rooms.get(target.roomId) : undefined;
+    if (!target || target === current || !room || room.phase === RoomPhase.Ended) {
+      return fail('Session expired');
+    }
+    if (current.authenticated && current.address.toLowerCase() !== target.address.toLowerCase()) {
+      return fail('Session belongs to another address');
+    }
+
+    const previous = target.ws;
+    target.attach(current.ws, current.encoding);
+    this.sessions.delete(current.id);
+    // The old socket may still look open if the drop was not noticed yet.
+    if (previous !== current.ws && previous.readyState === previous.OPEN) {
+      previous.terminate();
+    }
+
+    target.send({ type: ServerMsgType.Authenticated, address: target.address });
+    room.resumePlayer(target);
+    return target;
+  }
+
+  private async handleMessage(session: PlayerSession, msg: ClientMsg) {
+    // Answered from the first frame on, so clients can sync their clocks while signing in.
+    if (msg.type === ClientMsgType.Ping) {
+      if (msg.rtt !== undefined) session.latency = Math.round(msg.rtt);
+      session.send({ type: ServerMsgType.Pong, t: msg.t, serverTime: Date.now() });
+      return;
+    }
+
+    if (msg.type === ClientMsgType.Authenticate) {
+      await this.handleAuthenticate(session, msg);
+      return;
+    }
+
+    if (!session.authenticated) {
+      session.send({ type: ServerMsgType.Error, message: 'Not authenticated' });
+      return;
+    }
+
+    if (msg.type === ClientMsgType.CreateRoom) {
+      this.handleCreateRoom(session, msg);
+      return;
+    }
+
+    if (msg.type === ClientMsgType.JoinRoom) {
+      await this.handleJoinRoom(session, msg);
+      return;
+    }
+
+    if (msg.type === ClientMsgType.FindMatch) {
+      if (!session.roomId) await this.matchmaker.enqueue(session, msg.tier);
+      return;
+    }
+
+    if (msg.type === ClientMsgType.CancelMatch) {
+      this.matchmaker.cancel(session);
       return;
     }
 
@@ -56,21 +274,141 @@ export class GameServer {
     room.handleMessage(session, msg);
   }
 
-  private findOrCreateRoom(): GameRoom {
-    for (const room of this.rooms.values()) {
-      if (!room.isFull && room.phase === 'lobby') {
-        return room;
-      }
+  /** Binds the session to `msg.address` only if it signed this connection's nonce. */
+  private async handleAuthenticate(session: PlayerSession, msg: AuthenticateMsg) {
+    if (session.authenticated) return;
+
+    const nonce = session.authNonce;
+    session.authNonce = null;
+    if (!nonce || !isAddress(msg.address)) {
+      session.send({ type: ServerMsgType.Error, message: 'Authentication failed' });
+      return;
+    }
+
+    let valid = false;
+    try {
+      valid = await verifyMessage({
+        address: msg.address,
+        message: buildAuthMessage(nonce),
+        signature: msg.signature as `0x${string}`,
+      });
+    } catch {
+      valid = false;
+    }
+
+    if (!valid) {
+      // Each nonce is single-use; issue a fresh one for the next attempt.
+      session.authNonce = randomBytes(16).toString('hex');
+      session.send({ type: ServerMsgType.Error, message: 'Authentication failed' });
+      session.send({ type: ServerMsgType.AuthChallenge, nonce: session.authNonce });
+      return;
+    }
+
+    session.address = msg.address;
+    session.authenticated = true;
+    session.send({ type: ServerMsgType.Authenticated, address: session.address });
+  }
+
+  private handleCreateRoom(session: PlayerSession, msg: CreateRoomMsg) {
+    if (session.roomId) return;
+    this.matchmaker.remove(session);
+
+    const requested = msg.settings ?? {};
+    const defaults = this.defaultSettings();
+    const settings: RoomSettings = {
+      wagerAmount: requested.wagerAmount ?? defaults.wagerAmount,
+      asset: requested.asset ?? defaults.asset,
+      minPlayers: requested.minPlayers ?? defaults.minPlayers,
+      maxPlayers: requested.maxPlayers ?? defaults.maxPlayers,
+      endRule: requested.endRule ?? defaults.endRule,
+      mode: requested.mode ?? defaults.mode,
+    };
+    const problem = this.validateSettings(settings);
+    if (problem) {
+      session.send({ type: ServerMsgType.Error, message: problem });
+      return;
+    }
+
+    const room = this.createRoom(settings, this.generateInviteCode());
+    room.addPlayer(session);
+  }
+
+  private async handleJoinRoom(session: PlayerSession, msg: JoinRoomMsg) {
+    if (session.roomId) return;
+
+    if (msg.code === undefined) {
+      await this.matchmaker.enqueue(session, this.matchmaker.defaultTier);
+      return;
     }
 
-    const room = new GameRoom(this.wagerManager, this.yellowService.address);
-    room.onEmpty = () => this.rooms.delete(room.id);
+    const code = String(msg.code).trim().toUpperCase();
+    const room = Array.from(this.rooms.values()).find(r => r.inviteCode === code);
+    if (!room) {
+      session.send({ type: ServerMsgType.Error, message: 'No room with that invite code' });
+      return;
+    }
+    this.matchmaker.remove(session);
+    room.addPlayer(session);
+  }
+
+  private defaultSettings(): RoomSettings {
+    return {
+      wagerAmount: config.wagerAmount,
+      asset: YELLOW_ASSET,
+      minPlayers: MIN_PLAYERS,
+      maxPlayers: MAX_PLAYERS,
+      endRule: config.endRule,
+      mode: config.gameMode,
+    };
+  }
+
+  /** Returns a message describing the first invalid setting, or null if they are all acceptable. */
+  private validateSettings(settings: RoomSettings): string | null {
+    const { wagerAmount, asset, minPlayers, maxPlayers, endRule, mode } = settings;
+    if (typeof wagerAmount !== 'number' || !Number.isFinite(wagerAmount) || wagerAmount <= 0) {
+      return 'Wager amount must be a positive number';
+    }
+    if (wagerAmount > config.maxWagerAmount) {
+      return `Wager amount cannot exceed ${config.maxWagerAmount}`;
+    }
+    if (!config.allowedAssets.includes(asset)) {
+      return `Unsupported asset: ${asset}`;
+    }
+    if (!Number.isInteger(minPlayers) || !Number.isInteger(maxPlayers)) {
+      return 'Player limits must be whole numbers';
+    }
+    if (minPlayers < MIN_PLAYERS || maxPlayers > MAX_PLAYERS || minPlayers > maxPlayers) {
+      return `Player limits must satisfy ${MIN_PLAYERS} <= min <= max <= ${MAX_PLAYERS}`;
+    }
+    if (!END_RULES.includes(endRule)) {
+      return `Unknown end rule: ${endRule}`;
+    }
+    if (!GAME_MODE_IDS.includes(mode)) {
+      return `Unknown game mode: ${mode}`;
+    }
+    return null;
+  }
+
+  private generateInviteCode(): string {
+    for (;;) {
+      const bytes = randomBytes(INVITE_CODE_LENGTH);
+      const code = Array.from(bytes, b => INVITE_ALPHABET[b % INVITE_ALPHABET.length]).join('');
+      if (!Array.from(this.rooms.values()).some(r => r.inviteCode === code)) return code;
+    }
+  }
+
+  private createRoom(settings: RoomSettings, inviteCode: string | null): GameRoom {
+    const room = new GameRoom(this.wagerManager, this.yellowService.address, settings, inviteCode);
+    room.onClosed = () => this.rooms.delete(room.id);
+    room.onEnded = report => this.reporter.report(report);
     this.rooms.set(room.id, room);
-    console.log(`[GameServer] Created room ${room.id}`);
+    const label = inviteCode ? `private room ${room.id} (code ${inviteCode})` : `room ${room.id}`;
+    console.log(`[GameServer] Created ${label}`);
     return room;
   }
 
   stop() {
+    this.matchmaker.stop();
     this.wss?.close();
   }
 }
@@ -0,0 +1,79 @@
+import { GRID_SIZE } from '../shared/constants.js';
+import type { Vec3 } from '../shared/types.js';
+
+/**
+ * Uniform grid over the map that buckets entities by position, so finding
+ * who is near a point only looks at the cells the view radius overlaps.
+ * Positions outside GRID_SIZE fall into the border cells.
+ */
+export class InterestGrid {
+  private cells = new Map<number, Set<string>>();
+  private entities = new Map<string, { cell: number; position: Vec3 }>();
+  private readonly cellsPerSide: number;
+
+  constructor(private cellSize: number) {
+    this.cellsPerSide = Math.ceil(GRID_SIZE / cellSize);
+  }
+
+  move(id: string, position: Vec3) {
+    const cell = this.cellOf(position);
+    const entity = this.entities.get(id);
+    if (entity && entity.cell !== cell) this.cells.get(entity.cell)?.delete(id);
+    if (!entity || entity.cell !== cell) {
+      let members = this.cells.get(cell);
+      if (!members) {
+        members = new Set();
+        this.cells.set(cell, members);
+      }
+      members.add(id);
+    }
+    this.entities.set(id, { cell, position });
+  }
+
+  remove(id: string) {
+    const entity = this.entities.get(id);
+    if (!entity) return;
+    this.cells.get(entity.cell)?.delete(id);
+    this.entities.delete(id);
+  }
+
+  /** Ids of every entity within `radius` of `center`. */
+  near(center: Vec3, radius: number): Set<string> {
+    const found = new Set<string>();
+    const [minX, minZ] = this.indices(center.x - radius, center.z - radius);
+    const [maxX, maxZ] = this.indices(center.x + radius, center.z + radius);
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cz = minZ; cz <= maxZ; cz++) {
+        for (const id of this.cells.get(cx * this.cellsPerSide + cz) ?? []) {
+          const { position } = this.entities.get(id)!;
+          const dx = position.x - center.x;
+          const dz = position.z - center.z;
+          if (dx * dx + dz * dz <= radius * radius) found.add(id);
+        }
+      }
+    }
+    return found;
+  }
+
+  /** The centre of the cell containing `position`: what is shared about an entity that is out of view. */
+  coarse(position: Vec3): Vec3 {
+    const [cx, cz] = this.indices(position.x, position.z);
+    const half = GRID_SIZE / 2;
+    return {
+      x: (cx + 0.5) * this.cellSize - half,
+      y: position.y,
+      z: (cz + 0.5) * this.cellSize - half,
+    };
+  }
+
+  private cellOf(position: Vec3): number {
+    const [cx, cz] = this.indices(position.x, position.z);
+    return cx * this.cellsPerSide + cz;
+  }
+
+  private indices(x: number, z: number): [number, number] {
+    const half = GRID_SIZE / 2;
+    const clamp = (v: number) => Math.min(this.cellsPerSide - 1, Math.max(0, Math.floor((v + half) / this.cellSize)));
+    return [clamp(x), clamp(z)];
+  }
+}
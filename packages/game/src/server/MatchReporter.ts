@@ -0,0 +1,62 @@
+import { config } from '../config.js';
+
+const REPORT_MAX_ATTEMPTS = 5;
+const REPORT_BACKOFF_MS = 2_000;
+
+export interface MatchReport {
+  id: string;
+  players: { playerId: string; address: string }[];
+  winnerAddress: string | null;
+  reason: 'chest_found' | 'timeout' | 'abandoned';
+  durationMs: number;
+  pot: number;
+  asset: string;
+  endedAt: string;
+}
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/**
+ * Posts finished matches to the backend's ratings API. Reporting is best
+ * effort: it never blocks the game, and the backend ignores duplicate ids so
+ * retries are safe.
+ */
+export class MatchReporter {
+  report(match: MatchReport) {
+    if (!config.backendUrl || !config.matchReportKey) return;
+    this.send(match).catch(e => console.error(`[Reporter] Giving up on ${match.id}:`, e));
+  }
+
+  private async send(match: MatchReport) {
+    let lastError: unknown;
+    for (let attempt = 0; attempt < REPORT_MAX_ATTEMPTS; attempt++) {
+      if (attempt > 0) await sleep(REPORT_BACKOFF_MS * 2 ** (attempt - 1));
+
+      let res: Response;
+      try {
+        res = await fetch(`${config.backendUrl}/api/matches`, {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            'x-match-report-key': config.matchReportKey,
+          },
+          body: JSON.stringify(match),
+        });
+      } catch (e) {
+        lastError = e;
+        continue;
+      }
+
+      if (res.ok) {
+        console.log(`[Reporter] Reported ${match.id}`);
+        return;
+      }
+      // 4xx means the backend rejected the report itself; retrying won't help.
+      if (res.status < 500) {
+        throw new Error(`Backend rejected report: ${res.status} ${await res.text()}`);
+      }
+      lastError = new Error(`Backend returned ${res.status}`);
+    }
+    throw lastError;
+  }
+}
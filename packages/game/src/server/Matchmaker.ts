@@ -0,0 +1,186 @@
+import { ServerMsgType } from '../shared/protocol.js';
+import type { MatchmakingState } from '../shared/protocol.js';
+import type { RoomSettings } from '../shared/types.js';
+import { MAX_PLAYERS, MIN_PLAYERS, YELLOW_ASSET } from '../shared/constants.js';
+import type { PlayerSession } from './PlayerSession.js';
+import type { GameRoom } from './GameRoom.js';
+import { DEFAULT_RATING } from './BackendRatings.js';
+import type { RatingProvider } from './BackendRatings.js';
+import { config } from '../config.js';
+
+const MATCH_TICK_MS = 1_000;
+const BASE_RATING_WINDOW = 100;
+const RATING_WINDOW_GROWTH_PER_SEC = 10;
+const MAX_RATING_WINDOW = 800;
+
+interface QueueEntry {
+  session: PlayerSession;
+  tier: number;
+  rating: number;
+  queuedAt: number;
+}
+
+/**
+ * Groups queued players of the same wager tier into rooms by rating. Each
+ * player accepts opponents within a window that widens the longer they wait,
+ * and a group forms once MIN_PLAYERS (up to MAX_PLAYERS) mutually accept
+ * each other.
+ */
+export class Matchmaker {
+  private queues = new Map<number, QueueEntry[]>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private ratings: RatingProvider,
+    private createRoom: (settings: RoomSettings) => GameRoom,
+  ) {}
+
+  /** The tier plain JoinRoom requests queue for. */
+  get defaultTier(): number {
+    return config.matchTiers.includes(config.wagerAmount) ? config.wagerAmount : config.matchTiers[0];
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), MATCH_TICK_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  isQueued(session: PlayerSession): boolean {
+    return this.findEntry(session) !== undefined;
+  }
+
+  async enqueue(session: PlayerSession, tier: number) {
+    if (!config.matchTiers.includes(tier)) {
+      session.send({ type: ServerMsgType.Error, message: `Unknown wager tier: ${tier}` });
+      return;
+    }
+    if (this.isQueued(session)) {
+      session.send({ type: ServerMsgType.Error, message: 'Already searching for a match' });
+      return;
+    }
+
+    let rating = DEFAULT_RATING;
+    try {
+      rating = await this.ratings.getRating(session.address);
+    } catch (e) {
+      console.error(`[Matchmaker] Rating lookup failed for ${session.address}:`, e);
+    }
+    // The player may have joined a room, queued twice or dropped during the lookup.
+    if (session.roomId || this.isQueued(session) || session.ws.readyState !== session.ws.OPEN) return;
+
+    const entry: QueueEntry = { session, tier, rating, queuedAt: Date.now() };
+    const queue = this.queues.get(tier) ?? [];
+    queue.push(entry);
+    this.queues.set(tier, queue);
+
+    console.log(`[Matchmaker] ${session.id} queued for tier ${tier} (rating ${Math.round(rating)})`);
+    this.sendStatus(entry, 'searching');
+  }
+
+  cancel(session: PlayerSession) {
+    const entry = this.remove(session);
+    if (entry) this.sendStatus(entry, 'cancelled');
+  }
+
+  /** Drops a session from its queue without telling it, e.g. after it disconnected. */
+  remove(session: PlayerSession): QueueEntry | undefined {
+    const entry = this.findEntry(session);
+    if (!entry) return undefined;
+    const queue = this.queues.get(entry.tier)!;
+    queue.splice(queue.indexOf(entry), 1);
+    return entry;
+  }
+
+  private findEntry(session: PlayerSession): QueueEntry | undefined {
+    for (const queue of this.queues.values()) {
+      const entry = queue.find(e => e.session === session);
+      if (entry) return entry;
+    }
+    return undefined;
+  }
+
+  private tick() {
+    const now = Date.now();
+    for (const [tier, queue] of this.queues) {
+      for (const entry of queue.filter(e => now - e.queuedAt >= config.matchQueueTimeoutMs)) {
+        queue.splice(queue.indexOf(entry), 1);
+        this.sendStatus(entry, 'timed_out');
+      }
+
+      // Oldest players get first pick so nobody is starved by newer arrivals.
+      const waiting = [...queue].sort((a, b) => a.queuedAt - b.queuedAt);
+      const matched = new Set<QueueEntry>();
+      for (const anchor of waiting) {
+        if (matched.has(anchor)) continue;
+        const group = this.formGroup(anchor, waiting.filter(e => !matched.has(e)), now);
+        if (!group) continue;
+        for (const e of group) matched.add(e);
+        this.launch(tier, group);
+      }
+
+      this.queues.set(tier, queue.filter(e => !matched.has(e)));
+      for (const entry of this.queues.get(tier)!) {
+        this.sendStatus(entry, 'searching');
+      }
+    }
+  }
+
+  /** Picks the closest-rated players that `anchor` and each other will accept, or null if too few. */
+  private formGroup(anchor: QueueEntry, candidates: QueueEntry[], now: number): QueueEntry[] | null {
+    const group = [anchor];
+    const byDistance = candidates
+      .filter(e => e !== anchor)
+      .sort((a, b) => Math.abs(a.rating - anchor.rating) - Math.abs(b.rating - anchor.rating));
+
+    for (const candidate of byDistance) {
+      if (group.length >= MAX_PLAYERS) break;
+      const acceptable = group.every(member => {
+        const diff = Math.abs(member.rating - candidate.rating);
+        return diff <= this.ratingWindow(member, now) && diff <= this.ratingWindow(candidate, now);
+      });
+      if (acceptable) group.push(candidate);
+    }
+    return group.length >= MIN_PLAYERS ? group : null;
+  }
+
+  private launch(tier: number, group: QueueEntry[]) {
+    const room = this.createRoom({
+      wagerAmount: tier,
+      asset: YELLOW_ASSET,
+      minPlayers: MIN_PLAYERS,
+      maxPlayers: MAX_PLAYERS,
+      endRule: config.endRule,
+      mode: config.gameMode,
+    });
+    const ratings = group.map(e => Math.round(e.rating)).join(', ');
+    console.log(`[Matchmaker] Matched ${group.length} players at tier ${tier} into ${room.id} (ratings ${ratings})`);
+
+    for (const entry of group) {
+      this.sendStatus(entry, 'matched');
+      room.addPlayer(entry.session);
+    }
+  }
+
+  private ratingWindow(entry: QueueEntry, now: number): number {
+    const waitedSec = (now - entry.queuedAt) / 1000;
+    return Math.min(MAX_RATING_WINDOW, BASE_RATING_WINDOW + waitedSec * RATING_WINDOW_GROWTH_PER_SEC);
+  }
+
+  private sendStatus(entry: QueueEntry, state: MatchmakingState) {
+    const now = Date.now();
+    entry.session.send({
+      type: ServerMsgType.MatchmakingStatus,
+      state,
+      tier: entry.tier,
+      rating: Math.round(entry.rating),
+      ratingWindow: Math.round(this.ratingWindow(entry, now)),
+      waitedMs: now - entry.queuedAt,
+      playersInQueue: this.queues.get(entry.tier)?.length ?? 0,
+    });
+  }
+}
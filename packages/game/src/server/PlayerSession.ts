@@ -1,18 +1,47 @@
 import type WebSocket from 'ws';
-import type { Vec3, Inventory, PlayerUpgrades } from '../shared/types.js';
+import { randomBytes } from 'crypto';
+import type { Vec3, Inventory, PlayerState, PlayerUpgrades } from '../shared/types.js';
 import type { ServerMsg } from '../shared/protocol.js';
+import { encodeMessage } from '../shared/codec.js';
+import type { WireEncoding } from '../shared/codec.js';
+import { RateLimiter } from './RateLimiter.js';
 
 let nextId = 0;
 
 export class PlayerSession {
   readonly id: string;
+  readonly resumeToken = randomBytes(24).toString('hex');
   address = '';
+  authenticated = false;
+  authNonce: string | null = null;
+  /** Chosen in the Hello handshake; null until then. */
+  encoding: WireEncoding | null = null;
   roomId: string | null = null;
   position: Vec3 = { x: 0, y: 0, z: 0 };
   lastPositionTime = 0;
-  currentAction: 'idle' | 'harvesting' | 'digging' = 'idle';
-  actionTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Newest PositionUpdate seq processed, and the newest one acknowledged to the client. */
+  inputSeq = 0;
+  ackedInputSeq = 0;
+  /** Counts PositionCorrections sent; updates from before the latest one are stale. */
+  correction = 0;
+  /** The client's last reported round trip, in ms. */
+  latency = 0;
+  currentAction: PlayerState['currentAction'] = 'idle';
+  score = 0;
+  /** Points from the player's closest dig so far; only getting closer scores again. */
+  bestDigScore = 0;
+  /** Server times at which the player may next shove and steal. */
+  shoveReadyAt = 0;
+  stealReadyAt = 0;
   wagered = false;
+  wagerPending = false;
+  wagerRequestedAt = 0;
+  mapHint: { center: Vec3; radius: number } | null = null;
+  disconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  readonly rateLimiter = new RateLimiter();
+  strikes = 0;
+  lastStrikeAt = 0;
+  throttledUntil = 0;
 
   inventory: Inventory = { wood: 0, stone: 0, berry: 0 };
   upgrades: PlayerUpgrades = {
@@ -20,15 +49,28 @@ export class PlayerSession {
     digMultiplier: 1.0,
     hasMap: false,
     digUpgradesTaken: 0,
+    boots: 0,
+    mapFragments: 0,
+    torches: 0,
   };
 
-  constructor(readonly ws: WebSocket) {
+  constructor(public ws: WebSocket) {
     this.id = `p_${++nextId}_${Date.now().toString(36)}`;
   }
 
+  /** Moves this session onto a new socket after a reconnect. */
+  attach(ws: WebSocket, encoding: WireEncoding | null) {
+    this.ws = ws;
+    this.encoding = encoding;
+    if (this.disconnectTimer) {
+      clearTimeout(this.disconnectTimer);
+      this.disconnectTimer = null;
+    }
+  }
+
   send(msg: ServerMsg) {
     if (this.ws.readyState === this.ws.OPEN) {
-      this.ws.send(JSON.stringify(msg));
+      this.ws.send(encodeMessage(msg, this.encoding ?? 'json'));
     }
   }
 }
@@ -0,0 +1,75 @@
+import { ClientMsgType } from '../shared/protocol.js';
+import { RealClock } from './Clock.js';
+import type { Clock } from './Clock.js';
+
+interface BucketLimit {
+  /** Sustained messages per second. */
+  rate: number;
+  /** Messages that may arrive back to back before the rate applies. */
+  burst: number;
+}
+
+const CONTROL: BucketLimit = { rate: 1, burst: 5 };
+const ACTION: BucketLimit = { rate: 5, burst: 10 };
+
+// Clients send PositionUpdate every 50ms and ack snapshots ten times a second.
+const LIMITS: Record<ClientMsgType, BucketLimit> = {
+  [ClientMsgType.Hello]: CONTROL,
+  [ClientMsgType.Authenticate]: CONTROL,
+  [ClientMsgType.CreateRoom]: CONTROL,
+  [ClientMsgType.FindMatch]: CONTROL,
+  [ClientMsgType.CancelMatch]: CONTROL,
+  [ClientMsgType.JoinRoom]: CONTROL,
+  [ClientMsgType.ResumeSession]: CONTROL,
+  [ClientMsgType.LeaveRoom]: CONTROL,
+  [ClientMsgType.WagerConfirmed]: CONTROL,
+  [ClientMsgType.Ready]: CONTROL,
+  [ClientMsgType.PositionUpdate]: { rate: 30, burst: 40 },
+  [ClientMsgType.StartHarvest]: ACTION,
+  [ClientMsgType.StartDig]: ACTION,
+  [ClientMsgType.CancelHarvest]: ACTION,
+  [ClientMsgType.CancelDig]: ACTION,
+  [ClientMsgType.Craft]: ACTION,
+  [ClientMsgType.CancelCraft]: ACTION,
+  [ClientMsgType.Shove]: ACTION,
+  [ClientMsgType.Steal]: ACTION,
+  [ClientMsgType.PlantTrap]: ACTION,
+  [ClientMsgType.SyncAck]: { rate: 20, burst: 40 },
+  [ClientMsgType.Ping]: { rate: 1, burst: 3 },
+};
+
+class TokenBucket {
+  private tokens: number;
+  private refilledAt: number;
+
+  constructor(private limit: BucketLimit, now: number) {
+    this.tokens = limit.burst;
+    this.refilledAt = now;
+  }
+
+  take(now: number): boolean {
+    const elapsed = (now - this.refilledAt) / 1000;
+    this.tokens = Math.min(this.limit.burst, this.tokens + elapsed * this.limit.rate);
+    this.refilledAt = now;
+    if (this.tokens < 1) return false;
+    this.tokens--;
+    return true;
+  }
+}
+
+/** Per-session token buckets, one for each client message type. */
+export class RateLimiter {
+  private buckets = new Map<ClientMsgType, TokenBucket>();
+
+  constructor(private clock: Clock = new RealClock()) {}
+
+  allow(type: ClientMsgType): boolean {
+    const now = this.clock.now();
+    let bucket = this.buckets.get(type);
+    if (!bucket) {
+      bucket = new TokenBucket(LIMITS[type], now);
+      this.buckets.set(type, bucket);
+    }
+    return bucket.take(now);
+  }
+}
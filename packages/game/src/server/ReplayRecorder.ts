@@ -0,0 +1,57 @@
+import { createWriteStream, mkdirSync } from 'fs';
+import { join } from 'path';
+import { createGzip, type Gzip } from 'zlib';
+import type { ClientMsg, ServerMsg } from '../shared/protocol.js';
+import { REPLAY_VERSION } from '../shared/replay.js';
+import type { ReplayHeader, ReplayLine } from '../shared/replay.js';
+import type { Clock } from './Clock.js';
+
+/**
+ * Streams a match to `<dir>/<roomId>.jsonl.gz`: a header with everything
+ * needed to rebuild the island, then every broadcast and accepted input
+ * with its offset from the start of the match.
+ */
+export class ReplayRecorder {
+  readonly path: string;
+  private out: Gzip;
+  private startedAt: number;
+  private closed = false;
+
+  constructor(
+    dir: string,
+    header: Omit<ReplayHeader, 'kind' | 'version' | 'startedAt'>,
+    private clock: Clock,
+  ) {
+    mkdirSync(dir, { recursive: true });
+    this.path = join(dir, `${header.roomId}.jsonl.gz`);
+    this.startedAt = clock.now();
+
+    this.out = createGzip();
+    const file = createWriteStream(this.path);
+    this.out.pipe(file);
+    this.out.on('error', e => console.error(`[Replay] Compression failed for ${header.roomId}:`, e));
+    file.on('error', e => console.error(`[Replay] Write failed for ${this.path}:`, e));
+
+    this.write({ kind: 'header', version: REPLAY_VERSION, startedAt: this.startedAt, ...header });
+  }
+
+  server(msg: ServerMsg) {
+    this.write({ kind: 'server', t: this.clock.now() - this.startedAt, msg });
+  }
+
+  client(playerId: string, msg: ClientMsg) {
+    this.write({ kind: 'client', t: this.clock.now() - this.startedAt, playerId, msg });
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.out.end();
+    console.log(`[Replay] Saved ${this.path}`);
+  }
+
+  private write(line: ReplayLine) {
+    if (this.closed) return;
+    this.out.write(JSON.stringify(line) + '\n');
+  }
+}
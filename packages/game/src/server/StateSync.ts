@@ -0,0 +1,156 @@
+import { ServerMsgType } from '../shared/protocol.js';
+import type { PlayersDeltaMsg, PlayersSyncMsg } from '../shared/protocol.js';
+import type { PlayerDelta, PlayerState } from '../shared/types.js';
+
+/** How many snapshots per client stay available as delta baselines. */
+const SNAPSHOT_HISTORY = 32;
+
+interface Snapshot {
+  seq: number;
+  tick: number;
+  serverTime: number;
+  players: Map<string, PlayerState>;
+}
+
+interface ClientSync {
+  /** What this client was shown, oldest first. */
+  history: Snapshot[];
+  /** Newest snapshot the client confirmed receiving, or null if it needs a full baseline. */
+  acked: number | null;
+  /** Newest snapshot sent to the client. */
+  sent: number;
+}
+
+/**
+ * Numbered player snapshots for one room. Each client has its own history,
+ * since what it is shown depends on where it stands, and gets the changes
+ * since the last snapshot it acknowledged, or the full state when it has not
+ * acknowledged one that is still in its history.
+ */
+export class StateSync {
+  private clients = new Map<string, ClientSync>();
+  /** Shared by all clients, so a seq names one capture. */
+  private seq = 0;
+
+  /** Stores `players` as the next snapshot for `clientId` if anything it can see changed. Returns whether it did. */
+  capture(clientId: string, tick: number, serverTime: number, players: PlayerState[]): boolean {
+    const client = this.client(clientId);
+    const latest = client.history[client.history.length - 1];
+    const current = new Map(players.map(p => [p.id, p]));
+    if (latest && !this.changed(latest.players, current)) return false;
+
+    client.history.push({ seq: ++this.seq, tick, serverTime, players: current });
+    if (client.history.length > SNAPSHOT_HISTORY) client.history.shift();
+    return true;
+  }
+
+  /** The latest snapshot for `clientId` in full, or null before its first capture. */
+  fullSnapshot(clientId: string): PlayersSyncMsg | null {
+    const latest = this.latest(clientId);
+    return latest ? this.toFull(latest) : null;
+  }
+
+  /** What `clientId` should be sent for its latest snapshot, or null if it is up to date. */
+  messageFor(clientId: string): PlayersSyncMsg | PlayersDeltaMsg | null {
+    const client = this.clients.get(clientId);
+    const latest = this.latest(clientId);
+    if (!client || !latest || client.sent >= latest.seq) return null;
+    client.sent = latest.seq;
+
+    const base = client.acked === null ? undefined : client.history.find(s => s.seq === client.acked);
+    return base ? this.toDelta(base, latest) : this.toFull(latest);
+  }
+
+  ack(clientId: string, seq: number) {
+    const client = this.clients.get(clientId);
+    if (!client || !Number.isInteger(seq) || seq > client.sent) return;
+    if (client.acked === null || seq > client.acked) client.acked = seq;
+  }
+
+  /** Makes the next message for `clientId` a full baseline, e.g. after it joined or reconnected. */
+  reset(clientId: string) {
+    this.clients.set(clientId, { history: [], acked: null, sent: 0 });
+  }
+
+  forget(clientId: string) {
+    this.clients.delete(clientId);
+  }
+
+  private latest(clientId: string): Snapshot | undefined {
+    const history = this.clients.get(clientId)?.history;
+    return history?.[history.length - 1];
+  }
+
+  private client(clientId: string): ClientSync {
+    let client = this.clients.get(clientId);
+    if (!client) {
+      client = { history: [], acked: null, sent: 0 };
+      this.clients.set(clientId, client);
+    }
+    return client;
+  }
+
+  private toFull(snapshot: Snapshot): PlayersSyncMsg {
+    return {
+      type: ServerMsgType.PlayersSync,
+      seq: snapshot.seq,
+      tick: snapshot.tick,
+      serverTime: snapshot.serverTime,
+      players: Array.from(snapshot.players.values()),
+    };
+  }
+
+  private toDelta(base: Snapshot, snapshot: Snapshot): PlayersDeltaMsg {
+    const players: PlayerDelta[] = [];
+    for (const [id, player] of snapshot.players) {
+      const before = base.players.get(id);
+      if (!before) {
+        players.push(player);
+        continue;
+      }
+      const delta = diffPlayer(before, player);
+      if (delta) players.push(delta);
+    }
+    const removed = Array.from(base.players.keys()).filter(id => !snapshot.players.has(id));
+    return {
+      type: ServerMsgType.PlayersDelta,
+      seq: snapshot.seq,
+      baseSeq: base.seq,
+      tick: snapshot.tick,
+      serverTime: snapshot.serverTime,
+      players,
+      removed,
+    };
+  }
+
+  private changed(before: Map<string, PlayerState>, after: Map<string, PlayerState>): boolean {
+    if (before.size !== after.size) return true;
+    for (const [id, player] of after) {
+      const previous = before.get(id);
+      if (!previous || diffPlayer(previous, player)) return true;
+    }
+    return false;
+  }
+}
+
+/** Fields of `after` that differ from `before`, or null if none do. */
+function diffPlayer(before: PlayerState, after: PlayerState): PlayerDelta | null {
+  const delta: PlayerDelta = { id: after.id };
+  let changed = false;
+  for (const key of Object.keys(after) as (keyof PlayerState)[]) {
+    if (key === 'id' || sameValue(before[key], after[key])) continue;
+    (delta as Record<string, unknown>)[key] = after[key];
+    changed = true;
+  }
+  return changed ? delta : null;
+}
+
+/** Compares primitives, and flat objects such as positions and inventories field by field. */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  return keys.length === Object.keys(right).length && keys.every(k => left[k] === right[k]);
+}
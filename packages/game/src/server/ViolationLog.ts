@@ -0,0 +1,74 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname } from 'path';
+
+export type ViolationKind = 'malformed' | 'invalid' | 'rate_limited' | 'oversized';
+
+export interface ViolationEntry {
+  /** Null if the connection never authenticated. */
+  address: string | null;
+  sessionId: string;
+  kind: ViolationKind;
+  detail: string;
+  /** The session's strike count after this violation. */
+  strikes: number;
+  at: number;
+}
+
+export interface AddressViolations {
+  address: string;
+  total: number;
+  byKind: Partial<Record<ViolationKind, number>>;
+  lastAt: number;
+}
+
+const UNAUTHENTICATED = 'unauthenticated';
+
+/**
+ * Append-only JSONL record of rejected client messages, replayed on startup
+ * so per-address counts survive restarts.
+ */
+export class ViolationLog {
+  private addresses = new Map<string, AddressViolations>();
+
+  constructor(private path: string) {
+    this.load();
+  }
+
+  record(entry: Omit<ViolationEntry, 'at'>) {
+    const full: ViolationEntry = { ...entry, at: Date.now() };
+    appendFileSync(this.path, JSON.stringify(full) + '\n');
+    this.apply(full);
+  }
+
+  countsFor(address: string): AddressViolations | undefined {
+    return this.addresses.get(address.toLowerCase());
+  }
+
+  /** Every address with violations, most violations first. */
+  byAddress(): AddressViolations[] {
+    return Array.from(this.addresses.values()).sort((a, b) => b.total - a.total);
+  }
+
+  private load() {
+    mkdirSync(dirname(this.path), { recursive: true });
+    if (!existsSync(this.path)) return;
+
+    for (const line of readFileSync(this.path, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try { this.apply(JSON.parse(line)); }
+      catch { console.error('[Violations] Skipping corrupt line:', line); }
+    }
+  }
+
+  private apply(entry: ViolationEntry) {
+    const key = entry.address?.toLowerCase() ?? UNAUTHENTICATED;
+    let stats = this.addresses.get(key);
+    if (!stats) {
+      stats = { address: key, total: 0, byKind: {}, lastAt: entry.at };
+      this.addresses.set(key, stats);
+    }
+    stats.total++;
+    stats.byKind[entry.kind] = (stats.byKind[entry.kind] ?? 0) + 1;
+    stats.lastAt = Math.max(stats.lastAt, entry.at);
+  }
+}
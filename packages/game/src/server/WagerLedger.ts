@@ -0,0 +1,196 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname } from 'path';
+import type { WagerRecord } from '../shared/types.js';
+import { YELLOW_ASSET } from '../shared/constants.js';
+
+/** One winner's part of the pot. */
+export interface PayoutShare {
+  address: string;
+  amount: number;
+}
+
+export type LedgerEntry =
+  | { kind: 'room_opened'; roomId: string; seed: number; at: number }
+  | { kind: 'wager'; roomId: string; playerId: string; address: string; amount: number; asset?: string; txId: number | null; at: number }
+  | { kind: 'withdrawn'; roomId: string; playerId: string; at: number }
+  | { kind: 'settling'; roomId: string; winnerAddress: string | null; shares?: PayoutShare[]; at: number }
+  | { kind: 'transfer_started'; roomId: string; key: string; at: number }
+  | { kind: 'payout'; roomId: string; key: string; txId: number; address: string; amount: number; at: number }
+  | { kind: 'refund'; roomId: string; key: string; txId: number; playerId: string; address: string; amount: number; at: number }
+  | { kind: 'failure'; roomId: string; op: 'payout' | 'refund'; address: string; amount: number; error: string; at: number }
+  | { kind: 'settled'; roomId: string; at: number };
+
+export interface RoomLedger {
+  roomId: string;
+  seed: number | null;
+  wagers: WagerRecord[];
+  refunded: Set<string>;
+  /** Players whose wager was taken out of the pot to be refunded on its own. */
+  withdrawn: Set<string>;
+  /** Idempotency key -> time the first transfer attempt was written. */
+  attempts: Map<string, number>;
+  winnerAddress: string | null;
+  /** Set when the pot is split, instead of a single `winnerAddress`. */
+  shares: PayoutShare[] | null;
+  /** Lowercased addresses that have been paid their payout. */
+  paid: Set<string>;
+  settled: boolean;
+  failures: number;
+}
+
+/**
+ * Append-only JSONL record of every wager and settlement. Each line is
+ * written synchronously so a crash never loses an entry that was reported
+ * as recorded; the file is replayed on startup to rebuild room state.
+ */
+export class WagerLedger {
+  private rooms = new Map<string, RoomLedger>();
+  private claimedTxIds = new Set<number>();
+  private sentTxIds = new Set<number>();
+
+  constructor(private path: string) {
+    this.load();
+  }
+
+  append(entry: LedgerEntry) {
+    appendFileSync(this.path, JSON.stringify(entry) + '\n');
+    this.apply(entry);
+  }
+
+  /** Whether an incoming transfer has already been counted as someone's wager. */
+  isTxClaimed(txId: number): boolean {
+    return this.claimedTxIds.has(txId);
+  }
+
+  /** Whether an outgoing transfer has already been recorded as a payout or refund. */
+  isTxSent(txId: number): boolean {
+    return this.sentTxIds.has(txId);
+  }
+
+  getRoom(roomId: string): RoomLedger | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  /** Every room in the order it was first written. */
+  allRooms(): RoomLedger[] {
+    return Array.from(this.rooms.values());
+  }
+
+  /** Rooms that took at least one wager but never reached a `settled` entry. */
+  unsettledRooms(): RoomLedger[] {
+    return Array.from(this.rooms.values()).filter(r => !r.settled && r.wagers.length > 0);
+  }
+
+  /** Wagers still in the pot: neither refunded nor withdrawn. */
+  pot(room: RoomLedger): number {
+    return room.wagers
+      .filter(w => !room.refunded.has(w.playerId) && !room.withdrawn.has(w.playerId))
+      .reduce((sum, w) => sum + w.amount, 0);
+  }
+
+  /** Payouts `room` settled on that have not been paid yet; empty for rooms settling by refund. */
+  unpaidShares(room: RoomLedger): PayoutShare[] {
+    const pot = this.pot(room);
+    const shares = room.shares ?? (room.winnerAddress ? [{ address: room.winnerAddress, amount: pot }] : []);
+    return shares.filter(s => !room.paid.has(s.address.toLowerCase()));
+  }
+
+  /** Amount still owed across all unsettled rooms, keyed by `address asset`. */
+  outstanding(): Map<string, number> {
+    const owed = new Map<string, number>();
+    const add = (address: string, asset: string, amount: number) => {
+      const key = `${address} ${asset}`;
+      owed.set(key, (owed.get(key) ?? 0) + amount);
+    };
+    for (const room of this.unsettledRooms()) {
+      const paying = room.winnerAddress !== null || room.shares !== null;
+      if (paying) {
+        for (const share of this.unpaidShares(room)) add(share.address, room.wagers[0].asset, share.amount);
+      }
+      // A room paying out still owes back any withdrawn wagers; a refunding room owes every wager.
+      for (const w of room.wagers) {
+        if (room.refunded.has(w.playerId) || (paying && !room.withdrawn.has(w.playerId))) continue;
+        add(w.address, w.asset, w.amount);
+      }
+    }
+    return owed;
+  }
+
+  private load() {
+    mkdirSync(dirname(this.path), { recursive: true });
+    if (!existsSync(this.path)) return;
+
+    const lines = readFileSync(this.path, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try { this.apply(JSON.parse(line)); }
+      catch { console.error('[Ledger] Skipping corrupt line:', line); }
+    }
+    console.log(`[Ledger] Loaded ${this.rooms.size} rooms from ${this.path}`);
+  }
+
+  private room(roomId: string): RoomLedger {
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      room = {
+        roomId,
+        seed: null,
+        wagers: [],
+        refunded: new Set(),
+        withdrawn: new Set(),
+        attempts: new Map(),
+        winnerAddress: null,
+        shares: null,
+        paid: new Set(),
+        settled: false,
+        failures: 0,
+      };
+      this.rooms.set(roomId, room);
+    }
+    return room;
+  }
+
+  private apply(entry: LedgerEntry) {
+    const room = this.room(entry.roomId);
+    switch (entry.kind) {
+      case 'room_opened':
+        room.seed = entry.seed;
+        break;
+      case 'wager':
+        room.wagers.push({
+          playerId: entry.playerId,
+          address: entry.address,
+          amount: entry.amount,
+          // Entries written before rooms had their own asset.
+          asset: entry.asset ?? YELLOW_ASSET,
+          timestamp: entry.at,
+        });
+        if (entry.txId !== null) this.claimedTxIds.add(entry.txId);
+        break;
+      case 'withdrawn':
+        room.withdrawn.add(entry.playerId);
+        break;
+      case 'settling':
+        room.winnerAddress = entry.winnerAddress;
+        room.shares = entry.shares ?? null;
+        break;
+      case 'transfer_started':
+        if (!room.attempts.has(entry.key)) room.attempts.set(entry.key, entry.at);
+        break;
+      case 'payout':
+        room.paid.add(entry.address.toLowerCase());
+        this.sentTxIds.add(entry.txId);
+        break;
+      case 'refund':
+        room.refunded.add(entry.playerId);
+        this.sentTxIds.add(entry.txId);
+        break;
+      case 'failure':
+        room.failures++;
+        break;
+      case 'settled':
+        room.settled = true;
+        break;
+    }
+  }
+}
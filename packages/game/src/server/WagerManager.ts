@@ -1,21 +1,82 @@
 import type { WagerRecord } from '../shared/types.js';
-import type { YellowService } from './YellowService.js';
+import type { YellowService, TransferReceipt } from './YellowService.js';
+import type { PayoutShare, WagerLedger } from './WagerLedger.js';
+
+// Tolerated difference between our clock and the broker's transaction timestamps.
+const WAGER_CLOCK_SKEW_MS = 60_000;
+// Split payouts are rounded to this many decimals; the last share takes the remainder.
+const SHARE_DECIMALS = 6;
+
+export interface RefundResult {
+  receipts: TransferReceipt[];
+  failed: number;
+}
 
 export class WagerManager {
   private wagers = new Map<string, WagerRecord[]>();
 
-  constructor(private yellowService: YellowService) {}
+  constructor(
+    private yellowService: YellowService,
+    private ledger: WagerLedger,
+  ) {}
 
-  recordWager(roomId: string, playerId: string, address: string, amount: number) {
+  openRoom(roomId: string, seed: number) {
+    this.ledger.append({ kind: 'room_opened', roomId, seed, at: Date.now() });
+  }
+
+  /** Throws if the room has already settled, since nothing would ever pay the wager out or back. */
+  recordWager(roomId: string, playerId: string, address: string, amount: number, asset: string, txId: number | null = null) {
+    if (this.ledger.getRoom(roomId)?.settled) {
+      throw new Error(`Room ${roomId} has already settled`);
+    }
     if (!this.wagers.has(roomId)) {
       this.wagers.set(roomId, []);
     }
+    const timestamp = Date.now();
     this.wagers.get(roomId)!.push({
       playerId,
       address,
       amount,
-      timestamp: Date.now(),
+      asset,
+      timestamp,
     });
+    this.ledger.append({ kind: 'wager', roomId, playerId, address, amount, asset, txId, at: timestamp });
+  }
+
+  /**
+   * Waits for a transfer of at least `amount` from `address` that arrived
+   * after the wager was requested and has not already been counted, then
+   * records it at the amount actually sent, so an overpayment stays in the
+   * pot and is refunded with the rest. Resolves false if no such transfer
+   * shows up within `timeoutMs`, or if the room settles first, in which case
+   * the transfer is left unclaimed.
+   */
+  async verifyWager(
+    roomId: string,
+    playerId: string,
+    address: string,
+    amount: number,
+    asset: string,
+    requestedAt: number,
+    timeoutMs: number,
+  ): Promise<boolean> {
+    const tx = await this.yellowService.waitForIncomingTransfer(
+      address,
+      amount,
+      asset,
+      requestedAt - WAGER_CLOCK_SKEW_MS,
+      (candidate) => {
+        if (this.ledger.isTxClaimed(candidate.transactionId)) return false;
+        if (this.ledger.getRoom(roomId)?.settled) {
+          console.warn(`[Wager] Transfer ${candidate.transactionId} from ${address} arrived after ${roomId} settled; leaving it unclaimed`);
+          return false;
+        }
+        this.recordWager(roomId, playerId, address, candidate.amount, asset, candidate.transactionId);
+        return true;
+      },
+      timeoutMs,
+    );
+    return tx !== null;
   }
 
   isPlayerWagered(roomId: string, playerId: string): boolean {
@@ -32,27 +93,168 @@ export class WagerManager {
     return records.reduce((sum, w) => sum + w.amount, 0);
   }
 
-  async payoutWinner(roomId: string, winnerAddress: string): Promise<void> {
-    const pot = this.getPot(roomId);
-    if (pot > 0) {
-      await this.yellowService.transferTo(winnerAddress, pot);
+  /** Pays the whole pot to the winner. Resolves with null when there was nothing to pay. */
+  async payoutWinner(roomId: string, winnerAddress: string): Promise<TransferReceipt | null> {
+    this.ledger.append({ kind: 'settling', roomId, winnerAddress, at: Date.now() });
+    this.wagers.delete(roomId);
+    const receipts = await this.settlePayouts(roomId);
+    return receipts[0] ?? null;
+  }
+
+  /**
+   * Splits the pot between addresses in proportion to their weights, which
+   * must not all be zero. Addresses with no weight get nothing.
+   */
+  async splitPot(roomId: string, weights: Map<string, number>): Promise<TransferReceipt[]> {
+    const shares = this.shares(this.getPot(roomId), weights);
+    this.ledger.append({ kind: 'settling', roomId, winnerAddress: null, shares, at: Date.now() });
+    this.wagers.delete(roomId);
+    return this.settlePayouts(roomId);
+  }
+
+  /**
+   * Takes one player's wager out of the pot and refunds it while the rest of
+   * the room carries on. If the refund fails it is retried when the room
+   * settles. Resolves with null when the player has nothing to refund.
+   */
+  async refundWager(roomId: string, playerId: string): Promise<TransferReceipt | null> {
+    const room = this.ledger.getRoom(roomId);
+    const wager = room?.wagers.find(w => w.playerId === playerId);
+    if (!room || !wager || room.refunded.has(playerId)) return null;
+
+    this.wagers.set(roomId, (this.wagers.get(roomId) ?? []).filter(w => w.playerId !== playerId));
+    if (!room.withdrawn.has(playerId)) {
+      this.ledger.append({ kind: 'withdrawn', roomId, playerId, at: Date.now() });
     }
+    const result = await this.refund(roomId, [wager]);
+    return result.receipts[0] ?? null;
+  }
+
+  async refundAll(roomId: string): Promise<RefundResult> {
+    this.ledger.append({ kind: 'settling', roomId, winnerAddress: null, at: Date.now() });
     this.wagers.delete(roomId);
+    return this.settleRefunds(roomId);
   }
 
-  async refundAll(roomId: string): Promise<void> {
-    const records = this.wagers.get(roomId) ?? [];
-    for (const w of records) {
+  /**
+   * Re-drives settlement for rooms the ledger shows as funded but never
+   * settled, e.g. because the server restarted mid-game. Rooms that had
+   * already picked a winner or a split retry the payouts that are still
+   * owed; everything else is refunded.
+   */
+  async recoverUnsettled(): Promise<void> {
+    const rooms = this.ledger.unsettledRooms();
+    if (rooms.length === 0) return;
+
+    console.log(`[Wager] Recovering ${rooms.length} unsettled room(s)`);
+    for (const room of rooms) {
       try {
-        await this.yellowService.transferTo(w.address, w.amount);
+        if (room.winnerAddress || room.shares) {
+          await this.settlePayouts(room.roomId);
+        } else {
+          await this.settleRefunds(room.roomId);
+        }
       } catch (e) {
-        console.error(`[Wager] Refund failed for ${w.playerId}:`, e);
+        console.error(`[Wager] Recovery failed for ${room.roomId}:`, e);
       }
     }
-    this.wagers.delete(roomId);
   }
 
   cleanup(roomId: string) {
     this.wagers.delete(roomId);
   }
+
+  /**
+   * Pays every share still owed, stopping at the first failed transfer, then
+   * retries any withdrawn wagers whose refund failed earlier.
+   */
+  private async settlePayouts(roomId: string): Promise<TransferReceipt[]> {
+    const room = this.ledger.getRoom(roomId);
+    if (!room) return [];
+
+    const receipts: TransferReceipt[] = [];
+    for (const { address, amount } of this.ledger.unpaidShares(room)) {
+      if (amount <= 0) continue;
+      const key = `${roomId}:payout:${address.toLowerCase()}`;
+      let receipt: TransferReceipt;
+      try {
+        receipt = await this.transfer(roomId, key, address, amount, room.wagers[0].asset);
+      } catch (e) {
+        this.ledger.append({
+          kind: 'failure', roomId, op: 'payout', address, amount,
+          error: e instanceof Error ? e.message : String(e), at: Date.now(),
+        });
+        throw e;
+      }
+      receipts.push(receipt);
+      this.ledger.append({
+        kind: 'payout', roomId, key, txId: receipt.transactionId, address, amount, at: Date.now(),
+      });
+    }
+    const withdrawn = room.wagers.filter(w => room.withdrawn.has(w.playerId) && !room.refunded.has(w.playerId));
+    const { failed } = await this.refund(roomId, withdrawn);
+    if (failed === 0) {
+      this.ledger.append({ kind: 'settled', roomId, at: Date.now() });
+    }
+    return receipts;
+  }
+
+  private async settleRefunds(roomId: string): Promise<RefundResult> {
+    const room = this.ledger.getRoom(roomId);
+    if (!room) return { receipts: [], failed: 0 };
+
+    const result = await this.refund(roomId, room.wagers.filter(w => !room.refunded.has(w.playerId)));
+    if (result.failed === 0) {
+      this.ledger.append({ kind: 'settled', roomId, at: Date.now() });
+    }
+    return result;
+  }
+
+  /** Refunds each of `wagers`, carrying on past failures, which are written to the ledger. */
+  private async refund(roomId: string, wagers: WagerRecord[]): Promise<RefundResult> {
+    const result: RefundResult = { receipts: [], failed: 0 };
+    for (const w of wagers) {
+      const key = `${roomId}:refund:${w.playerId}`;
+      try {
+        const receipt = await this.transfer(roomId, key, w.address, w.amount, w.asset);
+        result.receipts.push(receipt);
+        this.ledger.append({
+          kind: 'refund', roomId, key, txId: receipt.transactionId, playerId: w.playerId,
+          address: w.address, amount: w.amount, at: Date.now(),
+        });
+      } catch (e) {
+        result.failed++;
+        console.error(`[Wager] Refund failed for ${w.playerId}:`, e);
+        this.ledger.append({
+          kind: 'failure', roomId, op: 'refund', address: w.address, amount: w.amount,
+          error: e instanceof Error ? e.message : String(e), at: Date.now(),
+        });
+      }
+    }
+    return result;
+  }
+
+  private shares(pot: number, weights: Map<string, number>): PayoutShare[] {
+    const entries = Array.from(weights).filter(([, weight]) => weight > 0);
+    const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+    const scale = 10 ** SHARE_DECIMALS;
+    let remaining = pot;
+    return entries.map(([address, weight], i) => {
+      const amount = i === entries.length - 1 ? remaining : Math.floor(pot * weight / total * scale) / scale;
+      remaining = Math.round((remaining - amount) * scale) / scale;
+      return { address, amount };
+    });
+  }
+
+  /**
+   * Writes the attempt to the ledger before sending, so a restart knows this
+   * key may already have been transferred and checks history before resending.
+   */
+  private transfer(roomId: string, key: string, address: string, amount: number, asset: string): Promise<TransferReceipt> {
+    const since = this.ledger.getRoom(roomId)?.attempts.get(key);
+    if (since === undefined) {
+      this.ledger.append({ kind: 'transfer_started', roomId, key, at: Date.now() });
+    }
+    return this.yellowService.transferTo(address, amount, asset, key, since, txId => this.ledger.isTxSent(txId));
+  }
 }
@@ -9,8 +9,10 @@ import {
   createECDSAMessageSigner,
   createEIP712AuthMessageSigner,
   createGetLedgerBalancesMessage,
+  createGetLedgerTransactionsMessage,
   createTransferMessage,
   createPingMessage,
+  RPCTxType,
 } from '@erc7824/nitrolite';
 import { createPublicClient, createWalletClient, http } from 'viem';
 import { sepolia } from 'viem/chains';
@@ -18,6 +20,16 @@ import { privateKeyToAccount, generatePrivateKey } from 'viem/accounts';
 import { config } from '../config.js';
 import { YELLOW_ASSET } from '../shared/constants.js';
 
+const RPC_TIMEOUT_MS = 10_000;
+const INCOMING_POLL_MS = 3_000;
+// Past the wager verify timeout, plus room for the clock skew waiters allow, no waiter can want a transfer.
+const INCOMING_RETENTION_MARGIN_MS = 120_000;
+const TRANSFER_MAX_ATTEMPTS = 4;
+const TRANSFER_BACKOFF_MS = 500;
+const HISTORY_PAGE_SIZE = 50;
+// Bounds how far back a retry searches for a transfer that may already have landed.
+const HISTORY_MAX_PAGES = 20;
+
 const mapState = (s: any) => ({
   intent: s.intent,
   version: BigInt(s.version),
@@ -29,6 +41,38 @@ const mapState = (s: any) => ({
   })),
 });
 
+export interface TransferReceipt {
+  idempotencyKey: string;
+  transactionId: number;
+  destination: string;
+  amount: number;
+  asset: string;
+}
+
+export interface IncomingTransfer {
+  transactionId: number;
+  from: string;
+  amount: number;
+  asset: string;
+  createdAt: number;
+}
+
+/** Transient errors (timeouts, dropped socket) are retried; broker rejections are not. */
+export class TransferError extends Error {
+  constructor(message: string, readonly transient: boolean) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+interface PendingRequest {
+  resolve: (data: any) => void;
+  reject: (e: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
 export class YellowService {
   private ws!: WebSocket;
   private account;
@@ -40,6 +84,14 @@ export class YellowService {
   private channelReady = false;
   private pendingResolves: Array<() => void> = [];
   private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private pendingRequests = new Map<number, PendingRequest>();
+  private nextRequestId = Date.now();
+  private receipts = new Map<string, TransferReceipt>();
+  private inFlight = new Map<string, Promise<TransferReceipt>>();
+  /** Outgoing transaction ids already matched to an idempotency key. */
+  private sentTxIds = new Set<number>();
+  private incoming = new Map<number, IncomingTransfer>();
+  private incomingWaiters = new Set<() => void>();
   readonly address: string;
 
   constructor() {
@@ -80,7 +132,7 @@ export class YellowService {
 
       const authParams = {
         session_key: this.sessionAddr as `0x${string}`,
-        allowances: [{ asset: YELLOW_ASSET, amount: '1000000000' }],
+        allowances: config.allowedAssets.map(asset => ({ asset, amount: '1000000000' })),
         expires_at: BigInt(Math.floor(Date.now() / 1000) + 3600),
         scope: 'app' as const,
       };
@@ -108,6 +160,11 @@ export class YellowService {
           clearInterval(this.pingInterval);
           this.pingInterval = null;
         }
+        for (const [id, pending] of this.pendingRequests) {
+          clearTimeout(pending.timer);
+          pending.reject(new TransferError('Yellow connection closed', true));
+          this.pendingRequests.delete(id);
+        }
       });
 
       this.ws.on('message', async (raw) => {
@@ -121,7 +178,24 @@ export class YellowService {
         }
         if (!msg.res) return;
 
-        const [, method, d] = msg.res;
+        const [requestId, method, d] = msg.res;
+
+        const pending = this.pendingRequests.get(requestId);
+        if (pending) {
+          clearTimeout(pending.timer);
+          this.pendingRequests.delete(requestId);
+          if (method === 'error') {
+            pending.reject(new TransferError(d?.error ?? 'Unknown RPC error', false));
+          } else {
+            pending.resolve(d);
+          }
+          return;
+        }
+
+        if (method === 'error') {
+          console.error('[Yellow] RPC error:', d?.error);
+          return;
+        }
 
         if (method === 'auth_challenge') {
           if (this.authenticated) return;
@@ -198,6 +272,14 @@ export class YellowService {
         if (method === 'get_ledger_balances') {
           // Balance query handled via callback
         }
+
+        if (method === 'tr') {
+          this.recordIncoming(d?.transactions);
+        }
+
+        if (method === 'bu' && this.incomingWaiters.size > 0) {
+          this.refreshIncoming().catch(() => {});
+        }
       });
     });
   }
@@ -217,15 +299,222 @@ export class YellowService {
     this.pendingResolves = [];
   }
 
-  async transferTo(destination: string, amount: number): Promise<void> {
-    if (!this.channelReady) {
-      throw new Error('Yellow channel not ready');
+  /**
+   * Sends an RPC request and resolves with the broker's response payload for
+   * the same request id, or rejects on an `error` response or timeout.
+   */
+  private async request(build: (requestId: number) => Promise<string>): Promise<any> {
+    if (this.ws?.readyState !== WebSocket.OPEN) {
+      throw new TransferError('Yellow connection not open', true);
     }
-    const msg = await createTransferMessage(this.sessionSigner, {
-      destination: destination as `0x${string}`,
-      allocations: [{ asset: YELLOW_ASSET, amount: amount.toString() }],
+    const requestId = ++this.nextRequestId;
+    const msg = await build(requestId);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        reject(new TransferError(`Yellow request ${requestId} timed out`, true));
+      }, RPC_TIMEOUT_MS);
+      this.pendingRequests.set(requestId, { resolve, reject, timer });
+      this.ws.send(msg);
     });
-    this.ws.send(msg);
+  }
+
+  /**
+   * Transfers `amount` to `destination` and resolves once the broker has
+   * acknowledged it. Calls sharing an `idempotencyKey` settle to the same
+   * receipt, and a retry first checks the ledger history so a transfer that
+   * landed before its acknowledgement was lost is never sent twice. Pass
+   * `since` when an earlier process may already have attempted this key, and
+   * `isTxSent` to rule out transfers an earlier process matched to other keys.
+   */
+  async transferTo(
+    destination: string,
+    amount: number,
+    asset: string,
+    idempotencyKey: string,
+    since?: number,
+    isTxSent: (txId: number) => boolean = () => false,
+  ): Promise<TransferReceipt> {
+    const done = this.receipts.get(idempotencyKey);
+    if (done) return done;
+
+    let running = this.inFlight.get(idempotencyKey);
+    if (!running) {
+      running = this.sendTransfer(destination, amount, asset, idempotencyKey, since, isTxSent)
+        .finally(() => this.inFlight.delete(idempotencyKey));
+      this.inFlight.set(idempotencyKey, running);
+    }
+    return running;
+  }
+
+  private async sendTransfer(
+    destination: string,
+    amount: number,
+    asset: string,
+    idempotencyKey: string,
+    since: number | undefined,
+    isTxSent: (txId: number) => boolean,
+  ): Promise<TransferReceipt> {
+    const firstAttempt = since ?? Date.now();
+    let lastError: Error = new TransferError('Transfer not attempted', true);
+
+    for (let attempt = 0; attempt < TRANSFER_MAX_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        await sleep(TRANSFER_BACKOFF_MS * 2 ** (attempt - 1));
+      }
+
+      try {
+        if (attempt > 0 || since !== undefined) {
+          const landed = await this.findOutgoingTransfer(destination, amount, asset, firstAttempt, isTxSent);
+          if (landed !== null) {
+            return this.storeReceipt({ idempotencyKey, transactionId: landed, destination, amount, asset });
+          }
+        }
+
+        if (!this.channelReady) {
+          throw new TransferError('Yellow channel not ready', true);
+        }
+        const d = await this.request(requestId => createTransferMessage(this.sessionSigner, {
+          destination: destination as `0x${string}`,
+          allocations: [{ asset, amount: amount.toString() }],
+        }, requestId));
+
+        const tx = d?.transactions?.[0];
+        if (typeof tx?.id !== 'number') {
+          // It may still have gone through; the retry checks history before resending.
+          throw new TransferError('Transfer acknowledged without a transaction', true);
+        }
+        return this.storeReceipt({
+          idempotencyKey,
+          transactionId: tx.id,
+          destination,
+          amount,
+          asset,
+        });
+      } catch (e) {
+        lastError = e instanceof Error ? e : new Error(String(e));
+        if (e instanceof TransferError && !e.transient) throw e;
+        console.warn(`[Yellow] Transfer ${idempotencyKey} attempt ${attempt + 1} failed: ${lastError.message}`);
+      }
+    }
+    throw lastError;
+  }
+
+  private storeReceipt(receipt: TransferReceipt): TransferReceipt {
+    this.receipts.set(receipt.idempotencyKey, receipt);
+    this.sentTxIds.add(receipt.transactionId);
+    console.log(`[Yellow] Transfer ${receipt.idempotencyKey} -> ${receipt.destination}: ${receipt.amount} ${receipt.asset} (tx ${receipt.transactionId})`);
+    return receipt;
+  }
+
+  /**
+   * Looks up the oldest transfer from this account to `destination` for
+   * `amount` made at or after `since` that no other idempotency key has
+   * matched. Transfers carry no memo, so this is how another room's payout
+   * or refund to the same player is told apart from this one.
+   */
+  private async findOutgoingTransfer(
+    destination: string,
+    amount: number,
+    asset: string,
+    since: number,
+    isTxSent: (txId: number) => boolean,
+  ): Promise<number | null> {
+    let match: number | null = null;
+    for (let page = 0; page < HISTORY_MAX_PAGES; page++) {
+      const d = await this.request(requestId => createGetLedgerTransactionsMessage(
+        this.sessionSigner, this.account.address,
+        { asset, tx_type: RPCTxType.Transfer, sort: 'desc', limit: HISTORY_PAGE_SIZE, offset: page * HISTORY_PAGE_SIZE },
+        requestId,
+      ));
+      const txs: any[] = d?.ledger_transactions ?? [];
+      for (const tx of txs) {
+        if (new Date(tx.created_at).getTime() < since) return match;
+        if (tx.from_account?.toLowerCase() !== this.account.address.toLowerCase()) continue;
+        if (tx.to_account?.toLowerCase() !== destination.toLowerCase() || parseFloat(tx.amount) !== amount) continue;
+        if (this.sentTxIds.has(tx.id) || isTxSent(tx.id)) continue;
+        match = tx.id;
+      }
+      if (txs.length < HISTORY_PAGE_SIZE) return match;
+    }
+    return match;
+  }
+
+  /**
+   * Resolves with an incoming `asset` transfer from `from` of at least `amount` made
+   * at or after `since`, or null once `timeoutMs` passes. Candidates are
+   * offered to `claim` synchronously, so a transfer accepted by one caller
+   * can never be matched by another, and a claimed transfer is forgotten.
+   */
+  async waitForIncomingTransfer(
+    from: string,
+    amount: number,
+    asset: string,
+    since: number,
+    claim: (tx: IncomingTransfer) => boolean,
+    timeoutMs: number,
+  ): Promise<IncomingTransfer | null> {
+    const deadline = Date.now() + timeoutMs;
+    const take = () => {
+      for (const tx of this.incoming.values()) {
+        if (tx.from.toLowerCase() !== from.toLowerCase() || tx.asset !== asset) continue;
+        if (tx.amount < amount || tx.createdAt < since) continue;
+        if (claim(tx)) {
+          this.incoming.delete(tx.transactionId);
+          return tx;
+        }
+      }
+      return null;
+    };
+
+    await this.refreshIncoming().catch(() => {});
+    for (;;) {
+      const found = take();
+      if (found) return found;
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return null;
+
+      const notified = await new Promise<boolean>((resolve) => {
+        const wake = () => { clearTimeout(timer); this.incomingWaiters.delete(wake); resolve(true); };
+        const timer = setTimeout(() => { this.incomingWaiters.delete(wake); resolve(false); }, Math.min(remaining, INCOMING_POLL_MS));
+        this.incomingWaiters.add(wake);
+      });
+      if (!notified) {
+        await this.refreshIncoming().catch(() => {});
+      }
+    }
+  }
+
+  /** Pulls recent transfers from ledger history in case a `tr` notification was missed. */
+  private async refreshIncoming() {
+    const d = await this.request(requestId => createGetLedgerTransactionsMessage(
+      this.sessionSigner, this.account.address, { tx_type: RPCTxType.Transfer, sort: 'desc', limit: 50 }, requestId
+    ));
+    this.recordIncoming(d?.ledger_transactions);
+  }
+
+  /** Adds newly seen transfers to us, and drops those too old for any wager to claim. */
+  private recordIncoming(txs: any[] | undefined) {
+    const cutoff = Date.now() - config.wagerVerifyTimeoutMs - INCOMING_RETENTION_MARGIN_MS;
+    for (const [id, tx] of this.incoming) {
+      if (tx.createdAt < cutoff) this.incoming.delete(id);
+    }
+    for (const tx of txs ?? []) {
+      if (tx.to_account?.toLowerCase() !== this.address.toLowerCase()) continue;
+      if (!config.allowedAssets.includes(tx.asset) || this.incoming.has(tx.id)) continue;
+      const createdAt = new Date(tx.created_at).getTime();
+      if (createdAt < cutoff) continue;
+      this.incoming.set(tx.id, {
+        transactionId: tx.id,
+        from: tx.from_account,
+        amount: parseFloat(tx.amount),
+        asset: tx.asset,
+        createdAt,
+      });
+    }
+    for (const wake of Array.from(this.incomingWaiters)) wake();
   }
 
   async getBalance(): Promise<number> {
@@ -0,0 +1,119 @@
+import { ClientMsgType } from '../shared/protocol.js';
+import type { ClientMsg } from '../shared/protocol.js';
+import { END_RULES } from '../shared/types.js';
+import { GAME_MODE_IDS } from '../shared/gameModes.js';
+import type { Vec3 } from '../shared/types.js';
+
+/** Largest coordinate accepted anywhere; the island is far smaller. */
+const MAX_COORD = 10_000;
+
+class ValidationError extends Error {}
+
+/** Returns `value` as a T (with unknown fields dropped) or throws a ValidationError naming `path`. */
+type Check<T> = (value: unknown, path: string) => T;
+
+/** One check per field of T, required or not. */
+type Shape<T> = { [K in keyof T]-?: Check<T[K]> };
+
+const fail = (path: string, expected: string): never => {
+  throw new ValidationError(`${path} must be ${expected}`);
+};
+
+const number = (opts: { min?: number; max?: number; integer?: boolean } = {}): Check<number> => (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fail(path, 'a finite number');
+  if (opts.integer && !Number.isInteger(value)) fail(path, 'an integer');
+  if (opts.min !== undefined && value < opts.min) fail(path, `>= ${opts.min}`);
+  if (opts.max !== undefined && value > opts.max) fail(path, `<= ${opts.max}`);
+  return value;
+};
+
+const string = (maxLength: number): Check<string> => (value, path) => {
+  if (typeof value !== 'string') return fail(path, 'a string');
+  if (value.length > maxLength) fail(path, `at most ${maxLength} characters`);
+  return value;
+};
+
+const oneOf = <T extends string>(values: readonly T[]): Check<T> => (value, path) =>
+  values.includes(value as T) ? value as T : fail(path, `one of ${values.join(', ')}`);
+
+const optional = <T>(check: Check<T>): Check<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : check(value, path);
+
+const arrayOf = <T>(check: Check<T>, maxLength: number): Check<T[]> => (value, path) => {
+  if (!Array.isArray(value)) return fail(path, 'an array');
+  if (value.length > maxLength) fail(path, `at most ${maxLength} items`);
+  return value.map((item, i) => check(item, `${path}[${i}]`));
+};
+
+const object = <T>(shape: Shape<T>): Check<T> => (value, path) => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(path, 'an object');
+  const input = value as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const field = shape[key](input[key], `${path}.${key}`);
+    if (field !== undefined) out[key] = field;
+  }
+  return out as T;
+};
+
+const coord = number({ min: -MAX_COORD, max: MAX_COORD });
+const vec3 = object<Vec3>({ x: coord, y: coord, z: coord });
+
+type MsgBody<K extends ClientMsgType> = Omit<Extract<ClientMsg, { type: K }>, 'type'>;
+
+/**
+ * A shape for every client message. Keyed by ClientMsgType and typed from
+ * the message interfaces, so adding a message or a field to protocol.ts
+ * does not compile until its validation is added here too.
+ */
+const schemas: { [K in ClientMsgType]: Shape<MsgBody<K>> } = {
+  [ClientMsgType.Hello]: { version: number({ integer: true }), encodings: arrayOf(string(16), 8) },
+  [ClientMsgType.Authenticate]: { address: string(64), signature: string(256) },
+  [ClientMsgType.CreateRoom]: {
+    settings: optional(object({
+      wagerAmount: optional(number({ min: 0 })),
+      asset: optional(string(32)),
+      minPlayers: optional(number({ integer: true })),
+      maxPlayers: optional(number({ integer: true })),
+      endRule: optional(oneOf(END_RULES)),
+      mode: optional(oneOf(GAME_MODE_IDS)),
+    })),
+  },
+  [ClientMsgType.FindMatch]: { tier: number({ min: 0 }) },
+  [ClientMsgType.CancelMatch]: {},
+  [ClientMsgType.JoinRoom]: { code: optional(string(16)) },
+  [ClientMsgType.ResumeSession]: { token: string(128) },
+  [ClientMsgType.LeaveRoom]: {},
+  [ClientMsgType.WagerConfirmed]: {},
+  [ClientMsgType.Ready]: {},
+  [ClientMsgType.PositionUpdate]: { seq: number({ min: 0, integer: true }), correction: number({ min: 0, integer: true }), position: vec3 },
+  [ClientMsgType.StartHarvest]: { resourceId: string(64) },
+  [ClientMsgType.StartDig]: { position: vec3 },
+  [ClientMsgType.CancelHarvest]: {},
+  [ClientMsgType.CancelDig]: {},
+  [ClientMsgType.Craft]: { recipeId: string(32) },
+  [ClientMsgType.CancelCraft]: {},
+  [ClientMsgType.Shove]: { targetId: string(64) },
+  [ClientMsgType.Steal]: { targetId: string(64) },
+  [ClientMsgType.PlantTrap]: {},
+  [ClientMsgType.SyncAck]: { seq: number({ min: 0, integer: true }) },
+  [ClientMsgType.Ping]: { t: number(), rtt: optional(number({ min: 0, max: 60_000 })) },
+};
+
+const isClientMsgType = (type: unknown): type is ClientMsgType =>
+  typeof type === 'string' && Object.prototype.hasOwnProperty.call(schemas, type);
+
+/** Checks a decoded frame against the protocol, returning a copy without unknown fields. */
+export function validateClientMsg(value: unknown): { ok: true; msg: ClientMsg } | { ok: false; error: string } {
+  if (typeof value !== 'object' || value === null) return { ok: false, error: 'message must be an object' };
+  const type = (value as { type?: unknown }).type;
+  if (!isClientMsgType(type)) return { ok: false, error: `unknown message type ${JSON.stringify(type)?.slice(0, 40)}` };
+
+  try {
+    const body = object(schemas[type] as Shape<Record<string, unknown>>)(value, type);
+    return { ok: true, msg: { ...body, type } as ClientMsg };
+  } catch (e) {
+    if (e instanceof ValidationError) return { ok: false, error: e.message };
+    throw e;
+  }
+}
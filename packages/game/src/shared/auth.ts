@@ -0,0 +1,4 @@
+/** EIP-191 message a client signs to prove it owns the address it joins with. */
+export function buildAuthMessage(nonce: string): string {
+  return `Sign in to Defi Pirates\n\nNonce: ${nonce}`;
+}
@@ -0,0 +1,84 @@
+/**
+ * NTP-style estimate of the server clock from Ping/Pong round trips, used by
+ * the Node clients and the browser. Import-free for the same reason as
+ * codec.ts.
+ *
+ * Each Pong carries the client's send time `t` and the server's clock when
+ * it answered. Assuming the two legs took equally long, the server clock
+ * read `serverTime` at the midpoint of the round trip. The sample with the
+ * shortest round trip has the least room for asymmetry, so its offset wins.
+ */
+
+/** Round trips remembered; older ones age out so drift is followed. */
+const SAMPLE_WINDOW = 8;
+/** Pings go out quickly until a few samples are in, then settle to a slow cadence. */
+const WARMUP_PINGS = 4;
+const WARMUP_PING_MS = 2_000;
+const PING_INTERVAL_MS = 10_000;
+
+interface ClockSample {
+  rtt: number;
+  offset: number;
+}
+
+export class ClockSync {
+  private samples: ClockSample[] = [];
+  private now: () => number;
+
+  /** `now` must be the clock Ping timestamps are taken with. */
+  constructor(now: () => number = () => Date.now()) {
+    this.now = now;
+  }
+
+  /** Timestamp for the next Ping. */
+  stamp(): number {
+    return this.now();
+  }
+
+  /** Records the Pong answering a Ping stamped `t`. */
+  onPong(t: number, serverTime: number) {
+    const received = this.now();
+    const rtt = received - t;
+    if (rtt < 0) return;
+    this.samples.push({ rtt, offset: serverTime - (t + received) / 2 });
+    if (this.samples.length > SAMPLE_WINDOW) this.samples.shift();
+  }
+
+  /** How long to wait before sending the next Ping. */
+  nextPingDelay(): number {
+    return this.samples.length < WARMUP_PINGS ? WARMUP_PING_MS : PING_INTERVAL_MS;
+  }
+
+  get synced(): boolean {
+    return this.samples.length > 0;
+  }
+
+  /** Median round trip in ms, or null before the first Pong. */
+  get rtt(): number | null {
+    if (this.samples.length === 0) return null;
+    const sorted = this.samples.map(s => s.rtt).sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  }
+
+  /** Server clock minus local clock, in ms. */
+  get offset(): number {
+    let best: ClockSample | null = null;
+    for (const s of this.samples) {
+      if (!best || s.rtt < best.rtt) best = s;
+    }
+    return best?.offset ?? 0;
+  }
+
+  serverNow(): number {
+    return this.now() + this.offset;
+  }
+
+  /** When server time `serverTime` happens on the local clock. */
+  toLocal(serverTime: number): number {
+    return serverTime - this.offset;
+  }
+
+  reset() {
+    this.samples = [];
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Wire encoding shared by the game server, the Node clients and the browser.
+ * Kept free of imports so the frontend can use it without pulling in the
+ * protocol enums.
+ *
+ * Every connection starts with a JSON `Hello` from the client naming its
+ * protocol version and the encodings it accepts. The server answers with a
+ * JSON `Welcome` carrying the chosen encoding, after which both sides send
+ * binary MessagePack frames, or text JSON frames if JSON was chosen.
+ */
+
+/** Bump whenever a message in protocol.ts changes shape. */
+export const PROTOCOL_VERSION = 13;
+
+export type WireEncoding = 'msgpack' | 'json';
+
+/** Encodings the server understands, most preferred first. */
+export const WIRE_ENCODINGS: WireEncoding[] = ['msgpack', 'json'];
+
+/** Close code the server uses after rejecting a client's protocol version. */
+export const VERSION_MISMATCH_CLOSE_CODE = 4001;
+
+/**
+ * What a client offers in Hello: only `preferred` if it names a known
+ * encoding (e.g. 'json' to read frames in devtools), otherwise everything.
+ */
+export function offeredEncodings(preferred?: string): WireEncoding[] {
+  const match = WIRE_ENCODINGS.find(e => e === preferred);
+  return match ? [match] : [...WIRE_ENCODINGS];
+}
+
+/** Picks the first of the client's offered encodings that the server supports. */
+export function pickEncoding(offered: unknown): WireEncoding | null {
+  if (!Array.isArray(offered)) return null;
+  return offered.find((e): e is WireEncoding => WIRE_ENCODINGS.includes(e)) ?? null;
+}
+
+export function encodeMessage(msg: unknown, encoding: WireEncoding): string | Uint8Array {
+  return encoding === 'msgpack' ? encodeMsgpack(msg) : JSON.stringify(msg);
+}
+
+/** Decodes a frame: text frames are JSON, binary frames MessagePack. */
+export function decodeMessage<T>(data: string | ArrayBuffer | Uint8Array): T {
+  if (typeof data === 'string') return JSON.parse(data);
+  return decodeMsgpack(data instanceof Uint8Array ? data : new Uint8Array(data)) as T;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class Writer {
+  private buf = new Uint8Array(256);
+  private view = new DataView(this.buf.buffer);
+  private pos = 0;
+
+  private ensure(n: number) {
+    if (this.pos + n <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.pos + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.pos));
+    this.buf = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(v: number) { this.ensure(1); this.view.setUint8(this.pos, v); this.pos += 1; }
+  u16(v: number) { this.ensure(2); this.view.setUint16(this.pos, v); this.pos += 2; }
+  u32(v: number) { this.ensure(4); this.view.setUint32(this.pos, v); this.pos += 4; }
+  i8(v: number) { this.ensure(1); this.view.setInt8(this.pos, v); this.pos += 1; }
+  i16(v: number) { this.ensure(2); this.view.setInt16(this.pos, v); this.pos += 2; }
+  i32(v: number) { this.ensure(4); this.view.setInt32(this.pos, v); this.pos += 4; }
+  f64(v: number) { this.ensure(8); this.view.setFloat64(this.pos, v); this.pos += 8; }
+
+  bytes(b: Uint8Array) {
+    this.ensure(b.length);
+    this.buf.set(b, this.pos);
+    this.pos += b.length;
+  }
+
+  result(): Uint8Array {
+    return this.buf.slice(0, this.pos);
+  }
+}
+
+/** Encodes a JSON-compatible value; like JSON, undefined object fields are dropped. */
+export function encodeMsgpack(value: unknown): Uint8Array {
+  const w = new Writer();
+  writeValue(w, value);
+  return w.result();
+}
+
+function writeValue(w: Writer, value: unknown) {
+  if (value === null || value === undefined) {
+    w.u8(0xc0);
+  } else if (typeof value === 'boolean') {
+    w.u8(value ? 0xc3 : 0xc2);
+  } else if (typeof value === 'number') {
+    writeNumber(w, value);
+  } else if (typeof value === 'string') {
+    writeString(w, value);
+  } else if (Array.isArray(value)) {
+    writeLength(w, value.length, 0x90, 0xdc, 0xdd);
+    for (const item of value) writeValue(w, item);
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    writeLength(w, entries.length, 0x80, 0xde, 0xdf);
+    for (const [k, v] of entries) {
+      writeString(w, k);
+      writeValue(w, v);
+    }
+  } else {
+    throw new Error(`Cannot encode ${typeof value}`);
+  }
+}
+
+function writeNumber(w: Writer, n: number) {
+  if (!Number.isInteger(n) || n > 0xffffffff || n < -0x80000000) {
+    w.u8(0xcb);
+    w.f64(n);
+  } else if (n >= 0) {
+    if (n < 0x80) w.u8(n);
+    else if (n <= 0xff) { w.u8(0xcc); w.u8(n); }
+    else if (n <= 0xffff) { w.u8(0xcd); w.u16(n); }
+    else { w.u8(0xce); w.u32(n); }
+  } else {
+    if (n >= -0x20) w.i8(n);
+    else if (n >= -0x80) { w.u8(0xd0); w.i8(n); }
+    else if (n >= -0x8000) { w.u8(0xd1); w.i16(n); }
+    else { w.u8(0xd2); w.i32(n); }
+  }
+}
+
+function writeString(w: Writer, s: string) {
+  const bytes = textEncoder.encode(s);
+  const n = bytes.length;
+  if (n < 32) w.u8(0xa0 | n);
+  else if (n <= 0xff) { w.u8(0xd9); w.u8(n); }
+  else if (n <= 0xffff) { w.u8(0xda); w.u16(n); }
+  else { w.u8(0xdb); w.u32(n); }
+  w.bytes(bytes);
+}
+
+function writeLength(w: Writer, n: number, fix: number, type16: number, type32: number) {
+  if (n < 16) w.u8(fix | n);
+  else if (n <= 0xffff) { w.u8(type16); w.u16(n); }
+  else { w.u8(type32); w.u32(n); }
+}
+
+export function decodeMsgpack(bytes: Uint8Array): unknown {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = 0;
+
+  const take = (n: number) => {
+    if (pos + n > bytes.length) throw new Error('Truncated MessagePack data');
+    const at = pos;
+    pos += n;
+    return at;
+  };
+  const str = (n: number) => {
+    const at = take(n);
+    return textDecoder.decode(bytes.subarray(at, at + n));
+  };
+  const array = (n: number) => {
+    const out: unknown[] = [];
+    for (let i = 0; i < n; i++) out.push(read());
+    return out;
+  };
+  const map = (n: number) => {
+    const out: Record<string, unknown> = {};
+    for (let i = 0; i < n; i++) {
+      const key = read();
+      if (typeof key !== 'string') throw new Error('MessagePack map keys must be strings');
+      out[key] = read();
+    }
+    return out;
+  };
+
+  function read(): unknown {
+    const type = view.getUint8(take(1));
+    if (type < 0x80) return type;
+    if (type >= 0xe0) return type - 0x100;
+    if ((type & 0xf0) === 0x80) return map(type & 0x0f);
+    if ((type & 0xf0) === 0x90) return array(type & 0x0f);
+    if ((type & 0xe0) === 0xa0) return str(type & 0x1f);
+
+    switch (type) {
+      case 0xc0: return null;
+      case 0xc2: return false;
+      case 0xc3: return true;
+      case 0xca: return view.getFloat32(take(4));
+      case 0xcb: return view.getFloat64(take(8));
+      case 0xcc: return view.getUint8(take(1));
+      case 0xcd: return view.getUint16(take(2));
+      case 0xce: return view.getUint32(take(4));
+      case 0xcf: return Number(view.getBigUint64(take(8)));
+      case 0xd0: return view.getInt8(take(1));
+      case 0xd1: return view.getInt16(take(2));
+      case 0xd2: return view.getInt32(take(4));
+      case 0xd3: return Number(view.getBigInt64(take(8)));
+      case 0xd9: return str(view.getUint8(take(1)));
+      case 0xda: return str(view.getUint16(take(2)));
+      case 0xdb: return str(view.getUint32(take(4)));
+      case 0xdc: return array(view.getUint16(take(2)));
+      case 0xdd: return array(view.getUint32(take(4)));
+      case 0xde: return map(view.getUint16(take(2)));
+      case 0xdf: return map(view.getUint32(take(4)));
+      default: throw new Error(`Unsupported MessagePack type 0x${type.toString(16)}`);
+    }
+  }
+
+  const value = read();
+  if (pos !== bytes.length) throw new Error('Trailing bytes after MessagePack value');
+  return value;
+}
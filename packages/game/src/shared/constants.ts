@@ -1,23 +1,34 @@
+// Engine and networking limits shared by every room. The rules of play
+// (durations, speeds, costs, resources, scoring, hints) live in gameModes.ts.
 export const GRID_SIZE = 200;
-export const HARVEST_DURATION_MS = parseInt(process.env.HARVEST_DURATION_MS || '3000', 10);
-export const DIG_DURATION_MS = parseInt(process.env.DIG_DURATION_MS || '3000', 10);
-export const CHEST_FIND_RADIUS = parseFloat(process.env.CHEST_FIND_RADIUS || '2.0');
 export const MAX_PLAYERS = 8;
 export const MIN_PLAYERS = 2;
-export const GAME_TIMEOUT_MS = parseInt(process.env.GAME_TIMEOUT_MS || '1800000', 10);
 export const POSITION_SEND_RATE_MS = 50;
 export const SYNC_BROADCAST_RATE_MS = 100;
-export const RESOURCE_COUNT = 200;
+export const TICK_MS = 50;
 export const YELLOW_ASSET = 'ytest.usd';
-export const MAX_SPEED = parseInt(process.env.MAX_SPEED || '40', 10);
-export const SPEED_TOLERANCE = 1.5;
+export const SPEED_TOLERANCE = 1.5;            // slack on a mode's maxSpeed
 export const HARVEST_PROXIMITY = 5.0;
-export const COUNTDOWN_MS = parseInt(process.env.COUNTDOWN_MS || '10000', 10);
 
-// Upgrade tuning
-export const BERRY_SPEED_BONUS = 0.08;         // +8% speed per berry
-export const DIG_UPGRADE_STONE_COST = 5;        // stone needed per dig upgrade
-export const DIG_UPGRADE_WOOD_COST = 5;         // wood needed per dig upgrade
-export const DIG_UPGRADE_MULTIPLIER = 0.90;     // 10% faster per upgrade (stacks)
-export const MAP_WOOD_COST = 50;                // wood needed for treasure map
-export const MAP_REVEAL_RADIUS = 25;            // chest area hint radius
+// Movement validation. The client walks on a flat collider whose top is GROUND_Y,
+// with the reported position at the centre of the player's capsule.
+export const GROUND_Y = -0.5;
+export const PLAYER_CENTER_HEIGHT = 1.0;        // capsule centre above the ground
+export const GROUND_TOLERANCE = 0.5;            // allowed sink below the ground
+export const MAX_HEIGHT_ABOVE_GROUND = 8;       // jumping onto the tallest rocks
+export const SHORE_ISLAND_VALUE = 0.05;         // raw island value where the beach meets the water
+export const MAX_MOVE_GAP_MS = 1_000;           // longer silences do not earn extra distance
+export const PATH_SAMPLE_STEP = 1.0;            // spacing of walkability samples along a move
+
+// Interest management: players get exact positions and actions of others within
+// VIEW_RADIUS, and only the grid cell of anyone further away.
+export const VIEW_RADIUS = 40;
+export const INTEREST_CELL_SIZE = 20;
+export const RECONNECT_GRACE_MS = parseInt(process.env.RECONNECT_GRACE_MS || '30000', 10);
+export const MAX_FRAME_BYTES = 16 * 1024;
+
+// Abuse handling: each rejected message is a strike, and one strike is forgiven per STRIKE_DECAY_MS
+export const STRIKE_DECAY_MS = 10_000;
+export const STRIKES_BEFORE_THROTTLE = 5;       // then all input is ignored for THROTTLE_MS
+export const STRIKES_BEFORE_KICK = 15;
+export const THROTTLE_MS = 3_000;
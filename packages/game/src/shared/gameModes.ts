@@ -0,0 +1,155 @@
+/**
+ * The rules a room plays by. Every room picks a mode when it is created and
+ * sends the whole definition to its players in RoomJoined, so the server,
+ * the browser and the bots all work from the same numbers. Kept free of
+ * imports like recipes.ts so the frontend can use it directly.
+ */
+
+export type GameModeId = 'classic' | 'blitz' | 'marathon';
+
+export const GAME_MODE_IDS: GameModeId[] = ['classic', 'blitz', 'marathon'];
+
+/** A number per resource type, named like the fields of Inventory. */
+export type PerResource = Record<'wood' | 'stone' | 'berry', number>;
+
+export interface GameMode {
+  id: GameModeId;
+  name: string;
+  description: string;
+  /** All in ms. `matchMs` is how long a match runs before it times out. */
+  durations: {
+    countdownMs: number;
+    matchMs: number;
+    harvestMs: number;
+    digMs: number;
+  };
+  movement: {
+    /** Client walking and running speeds, before boots. */
+    walkSpeed: number;
+    runSpeed: number;
+    /** Fastest movement the server accepts, before boots and its tolerance. */
+    maxSpeed: number;
+  };
+  resources: {
+    count: number;
+    /** Relative share of each type among the nodes. */
+    mix: PerResource;
+    /** Harvests before a node is depleted, items per harvest and regrowth time. */
+    charges: PerResource;
+    yield: PerResource;
+    respawnMs: PerResource;
+    /** Each node's regrowth time varies by up to this fraction either way. */
+    respawnJitter: number;
+    richChance: number;
+    /** Charges and yield of a rich node relative to a normal one. */
+    richMultiplier: number;
+  };
+  costs: {
+    /** Scales the cost of every recipe tier, rounded up. */
+    craftScale: number;
+    trap: Partial<PerResource>;
+  };
+  /** Finding the chest wins outright; without it, score settles the match. */
+  win: {
+    chestFindRadius: number;
+    scorePerResource: number;
+    /** Each completed craft. */
+    scorePerUpgrade: number;
+    /** A dig right beside the chest; digs further than `digScoreRadius` away score nothing. */
+    digScoreMax: number;
+    digScoreRadius: number;
+  };
+  /**
+   * Failed-dig hints: the digger learns how hot the dig was, and a torch adds
+   * a noisy bearing to the chest that narrows with each further torch.
+   */
+  hints: {
+    enabled: boolean;
+    hotDistance: number;
+    warmDistance: number;
+    /** Either side, with one torch. */
+    bearingError: number;
+    /** Multiplies the error for each further torch. */
+    errorFalloff: number;
+    /** Chest area radius with every map fragment. */
+    mapRevealRadius: number;
+  };
+}
+
+const CLASSIC: GameMode = {
+  id: 'classic',
+  name: 'Classic',
+  description: 'Half an hour to gather, craft and dig',
+  durations: { countdownMs: 10_000, matchMs: 1_800_000, harvestMs: 3_000, digMs: 3_000 },
+  movement: { walkSpeed: 4, runSpeed: 6, maxSpeed: 40 },
+  resources: {
+    count: 200,
+    mix: { wood: 1, stone: 1, berry: 1 },
+    charges: { wood: 3, stone: 2, berry: 4 },
+    yield: { wood: 1, stone: 1, berry: 2 },
+    respawnMs: { wood: 60_000, stone: 90_000, berry: 45_000 },
+    respawnJitter: 0.25,
+    richChance: 0.06,
+    richMultiplier: 3,
+  },
+  costs: { craftScale: 1, trap: { wood: 2, stone: 2 } },
+  win: { chestFindRadius: 2, scorePerResource: 1, scorePerUpgrade: 5, digScoreMax: 20, digScoreRadius: 60 },
+  hints: {
+    enabled: true,
+    hotDistance: 15,
+    warmDistance: 40,
+    bearingError: Math.PI / 4,
+    errorFalloff: 0.7,
+    mapRevealRadius: 25,
+  },
+};
+
+export const GAME_MODES: Record<GameModeId, GameMode> = {
+  classic: CLASSIC,
+  blitz: {
+    ...CLASSIC,
+    id: 'blitz',
+    name: 'Blitz',
+    description: 'Ten minutes, quick actions and cheap crafts',
+    durations: { countdownMs: 5_000, matchMs: 600_000, harvestMs: 1_500, digMs: 2_000 },
+    movement: { walkSpeed: 5, runSpeed: 8, maxSpeed: 40 },
+    resources: {
+      ...CLASSIC.resources,
+      count: 150,
+      respawnMs: { wood: 30_000, stone: 45_000, berry: 20_000 },
+    },
+    costs: { craftScale: 0.5, trap: { wood: 1, stone: 1 } },
+    win: { ...CLASSIC.win, chestFindRadius: 3 },
+    hints: { ...CLASSIC.hints, warmDistance: 50 },
+  },
+  marathon: {
+    ...CLASSIC,
+    id: 'marathon',
+    name: 'Marathon',
+    description: 'An hour on a sparser island where stone is scarce',
+    durations: { countdownMs: 10_000, matchMs: 3_600_000, harvestMs: 4_000, digMs: 4_000 },
+    resources: {
+      ...CLASSIC.resources,
+      count: 240,
+      mix: { wood: 2, stone: 1, berry: 2 },
+      respawnMs: { wood: 90_000, stone: 150_000, berry: 60_000 },
+      richChance: 0.04,
+    },
+    costs: { craftScale: 1.5, trap: { wood: 3, stone: 2 } },
+    win: { ...CLASSIC.win, chestFindRadius: 1.5 },
+    hints: { ...CLASSIC.hints, hotDistance: 10, warmDistance: 30 },
+  },
+};
+
+export function getGameMode(id: string): GameMode | undefined {
+  return GAME_MODE_IDS.includes(id as GameModeId) ? GAME_MODES[id as GameModeId] : undefined;
+}
+
+/** `cost` under `mode`'s craft scale. */
+export function scaleCost(cost: Partial<PerResource>, mode: GameMode): Partial<PerResource> {
+  const scaled: Partial<PerResource> = {};
+  for (const [item, amount] of Object.entries(cost) as [keyof PerResource, number][]) {
+    scaled[item] = Math.ceil(amount * mode.costs.craftScale);
+  }
+  return scaled;
+}
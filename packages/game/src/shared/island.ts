@@ -1,4 +1,7 @@
-import { GRID_SIZE, RESOURCE_COUNT } from './constants.js';
+import {
+  GRID_SIZE, GROUND_Y, PATH_SAMPLE_STEP, PLAYER_CENTER_HEIGHT, SHORE_ISLAND_VALUE,
+} from './constants.js';
+import type { GameMode } from './gameModes.js';
 import type { Vec3, Resource } from './types.js';
 import { ResourceType } from './types.js';
 
@@ -86,6 +89,28 @@ export function isOnIsland(x: number, z: number, seed: number): boolean {
   return getIslandShape(x, z, seed) === 1;
 }
 
+/** Whether a player may stand here: anywhere on the island, its beach included. */
+export function isWalkable(x: number, z: number, seed: number): boolean {
+  return (getIslandShape(x, z, seed, false, true) as number) > SHORE_ISLAND_VALUE;
+}
+
+/** Whether the straight line between two points stays on walkable ground, so moves cannot hop across water. */
+export function isPathWalkable(from: Vec3, to: Vec3, seed: number): boolean {
+  const dx = to.x - from.x;
+  const dz = to.z - from.z;
+  const steps = Math.ceil(Math.sqrt(dx * dx + dz * dz) / PATH_SAMPLE_STEP);
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+    if (!isWalkable(from.x + dx * t, from.z + dz * t, seed)) return false;
+  }
+  return true;
+}
+
+/** Where every player starts; the island always covers its centre. */
+export function getSpawnPosition(): Vec3 {
+  return { x: 0, y: GROUND_Y + PLAYER_CENTER_HEIGHT, z: 0 };
+}
+
 export function generateChestPosition(seed: number): Vec3 {
   const rng = mulberry32(seed * 99991);
   const maxR = GRASS_RANGE / 2.5;
@@ -101,10 +126,15 @@ export function generateChestPosition(seed: number): Vec3 {
   return { x: 0, y: getHeightAt(0, 0, seed), z: 0 };
 }
 
-export function generateResources(seed: number, count: number = RESOURCE_COUNT): Resource[] {
+/** Scatters `rules.count` nodes over the island, their types drawn in proportion to `rules.mix`. */
+export function generateResources(seed: number, rules: GameMode['resources']): Resource[] {
+  const { count } = rules;
   const rng = mulberry32(seed * 77777);
+  // Node stats come from their own stream, apart from the nodes' placement and the chest's.
+  const statsRng = mulberry32(seed * 24691);
   const resources: Resource[] = [];
   const types = [ResourceType.Wood, ResourceType.Stone, ResourceType.Berry];
+  const totalWeight = types.reduce((sum, t) => sum + rules.mix[t], 0);
   const maxR = GRASS_RANGE / 2.2;
   const minSpacing = 5;
 
@@ -123,10 +153,20 @@ export function generateResources(seed: number, count: number = RESOURCE_COUNT):
     });
     if (tooClose) continue;
 
+    let pick = rng() * totalWeight;
+    const type = types.find(t => (pick -= rules.mix[t]) < 0) ?? types[types.length - 1];
+    const rich = statsRng() < rules.richChance;
+    const scale = rich ? rules.richMultiplier : 1;
+    const jitter = 1 + (statsRng() * 2 - 1) * rules.respawnJitter;
     resources.push({
       id: `res_${resources.length}`,
-      type: types[Math.floor(rng() * types.length)],
+      type,
       position: { x, y: getHeightAt(x, z, seed), z },
+      rich,
+      charges: rules.charges[type] * scale,
+      maxCharges: rules.charges[type] * scale,
+      yield: rules.yield[type] * scale,
+      respawnMs: Math.round(rules.respawnMs[type] * jitter),
       harvested: false,
     });
   }
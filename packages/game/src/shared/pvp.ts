@@ -0,0 +1,22 @@
+/**
+ * Tuning for the actions players take against each other. Shared by the
+ * server, which validates them, and the browser, which picks targets and
+ * shows cooldowns; kept free of imports like recipes.ts.
+ */
+
+/** How close a player must be to shove or rob someone. */
+export const PVP_RANGE = 4;
+
+/** A shove interrupts whatever the target is doing. */
+export const SHOVE_COOLDOWN_MS = 10_000;
+
+/** Robbing takes a moment, and fails if the target gets out of range first. */
+export const STEAL_DURATION_MS = 1_500;
+export const STEAL_COOLDOWN_MS = 20_000;
+
+/** Traps, whose cost is set by the game mode, are hidden from everyone but their owner and spring on the next dig nearby. */
+export const TRAP_PLANT_MS = 2_000;
+export const TRAP_RADIUS = 3;
+/** Extra time added to a dig that springs a trap. */
+export const TRAP_STALL_MS = 5_000;
+export const MAX_TRAPS_PER_PLAYER = 2;
@@ -0,0 +1,89 @@
+/**
+ * Everything a player can craft. Shared by the server, which validates and
+ * applies crafts, and the browser, which lists them in the crafting panel;
+ * kept free of imports like codec.ts so the frontend can use it directly.
+ */
+
+export type RecipeId = 'shovel' | 'boots' | 'map_fragment' | 'torch';
+
+/** Resources a craft consumes, named like the fields of Inventory. */
+export type RecipeCost = Partial<Record<'wood' | 'stone' | 'berry', number>>;
+
+/** What completing a craft does, applied in order by the server's upgrade pipeline. */
+export type UpgradeEffect =
+  /** Multiplies the time every dig takes. */
+  | { kind: 'dig_speed'; multiplier: number }
+  /** Adds to the player's speed multiplier. */
+  | { kind: 'move_speed'; bonus: number }
+  /** Reveals the chest area, narrowing it with each fragment held. */
+  | { kind: 'reveal_map' };
+
+export interface RecipeTier {
+  cost: RecipeCost;
+  durationMs: number;
+}
+
+export interface Recipe {
+  id: RecipeId;
+  name: string;
+  description: string;
+  /** The PlayerUpgrades field counting how many times the player has crafted this. */
+  counter: 'digUpgradesTaken' | 'boots' | 'mapFragments' | 'torches';
+  /** Cost of each successive craft; the recipe is exhausted after the last. */
+  tiers: RecipeTier[];
+  effects: UpgradeEffect[];
+}
+
+/** Fragments that make a whole map; holding them all pins the chest area down the most. */
+export const MAP_FRAGMENT_COUNT = 3;
+
+export const RECIPES: Recipe[] = [
+  {
+    id: 'shovel',
+    name: 'Shovel',
+    description: 'Each tier digs 20% faster',
+    counter: 'digUpgradesTaken',
+    tiers: [
+      { cost: { wood: 3, stone: 3 }, durationMs: 3_000 },
+      { cost: { wood: 5, stone: 6 }, durationMs: 4_000 },
+      { cost: { wood: 8, stone: 10 }, durationMs: 5_000 },
+    ],
+    effects: [{ kind: 'dig_speed', multiplier: 0.8 }],
+  },
+  {
+    id: 'boots',
+    name: 'Boots',
+    description: 'Each pair moves 15% faster',
+    counter: 'boots',
+    tiers: [
+      { cost: { berry: 4, wood: 2 }, durationMs: 2_500 },
+      { cost: { berry: 8, wood: 4 }, durationMs: 3_500 },
+    ],
+    effects: [{ kind: 'move_speed', bonus: 0.15 }],
+  },
+  {
+    id: 'map_fragment',
+    name: 'Map fragment',
+    description: 'Marks the chest area; more fragments narrow it',
+    counter: 'mapFragments',
+    tiers: Array.from({ length: MAP_FRAGMENT_COUNT }, () => ({ cost: { wood: 8 }, durationMs: 4_000 })),
+    effects: [{ kind: 'reveal_map' }],
+  },
+  {
+    // Needs no effect: failed-dig hints grow sharper with the torch count.
+    id: 'torch',
+    name: 'Torch',
+    description: 'Failed digs point toward the chest, more precisely with each torch',
+    counter: 'torches',
+    tiers: [
+      { cost: { wood: 2, stone: 1 }, durationMs: 2_000 },
+      { cost: { wood: 3, stone: 2 }, durationMs: 2_000 },
+      { cost: { wood: 4, stone: 3 }, durationMs: 2_000 },
+    ],
+    effects: [],
+  },
+];
+
+export function getRecipe(id: string): Recipe | undefined {
+  return RECIPES.find(r => r.id === id);
+}
@@ -0,0 +1,26 @@
+import type { ClientMsg, ServerMsg } from './protocol.js';
+import type { RoomSettings, Vec3 } from './types.js';
+
+export const REPLAY_VERSION = 1;
+
+/** First line of every replay file. */
+export interface ReplayHeader {
+  kind: 'header';
+  version: number;
+  roomId: string;
+  seed: number;
+  chestPosition: Vec3;
+  settings: RoomSettings;
+  players: { playerId: string; address: string }[];
+  startedAt: number;
+}
+
+/**
+ * One line per recorded message; `t` is milliseconds since `startedAt`.
+ * Server lines are room broadcasts, client lines are inputs the room accepted.
+ */
+export type ReplayEvent =
+  | { kind: 'server'; t: number; msg: ServerMsg }
+  | { kind: 'client'; t: number; playerId: string; msg: ClientMsg };
+
+export type ReplayLine = ReplayHeader | ReplayEvent;
@@ -1,3 +1,5 @@
+import type { GameModeId } from './gameModes.js';
+
 export interface Vec3 {
   x: number;
   y: number;
@@ -14,7 +16,21 @@ export interface Resource {
   id: string;
   type: ResourceType;
   position: Vec3;
+  /** Rare node with more charges and a bigger yield. */
+  rich: boolean;
+  /** Harvests left before the node is depleted. */
+  charges: number;
+  maxCharges: number;
+  /** Items each harvest gives. */
+  yield: number;
+  /** How long the node takes to regrow once depleted; fixed per node by the room seed. */
+  respawnMs: number;
+  /** Depleted: no charges left until the node respawns. */
   harvested: boolean;
+  /** Server time the node respawns, while it is depleted. */
+  respawnsAt?: number;
+  /** Player harvesting the node; nobody else can start on it until they finish or stop. */
+  reservedBy?: string;
 }
 
 export interface Inventory {
@@ -23,11 +39,24 @@ export interface Inventory {
   berry: number;
 }
 
+/** A hidden trap; only its owner is told where it is until it springs. */
+export interface Trap {
+  id: string;
+  ownerId: string;
+  position: Vec3;
+}
+
 export interface PlayerUpgrades {
   speedMultiplier: number;
   digMultiplier: number;
+  /** Whether any map fragment has been crafted. */
   hasMap: boolean;
+  /** Shovel tiers crafted. */
   digUpgradesTaken: number;
+  boots: number;
+  mapFragments: number;
+  /** Each torch sharpens the hints failed digs give. */
+  torches: number;
 }
 
 export interface PlayerState {
@@ -35,12 +64,51 @@ export interface PlayerState {
   address: string;
   position: Vec3;
   score: number;
-  currentAction: 'idle' | 'harvesting' | 'digging';
+  currentAction: 'idle' | 'harvesting' | 'digging' | 'crafting' | 'stealing' | 'planting';
   connected: boolean;
+  /** Round trip to the server in ms as last reported by the player, 0 if unknown. */
+  latency: number;
   inventory: Inventory;
   upgrades: PlayerUpgrades;
 }
 
+/** The fields of a PlayerState that changed, or all of them for a player new to the snapshot. */
+export type PlayerDelta = Pick<PlayerState, 'id'> & Partial<Omit<PlayerState, 'id'>>;
+
+/**
+ * How the pot is settled when a match ends without anyone finding the chest:
+ * everyone is refunded, the highest score takes it (a tie refunds), or it is
+ * split in proportion to score.
+ */
+export type EndRule = 'refund' | 'highest_score' | 'proportional';
+
+export const END_RULES: EndRule[] = ['refund', 'highest_score', 'proportional'];
+
+/** How close a failed dig was to the chest. */
+export type DigHeat = 'cold' | 'warm' | 'hot';
+
+/** What a failed dig tells the digger about where the chest is. */
+export interface DigHint {
+  heat: DigHeat;
+  /**
+   * Rough direction from the dig to the chest, in radians on the ground
+   * plane (0 along +x, PI/2 along +z). Only given to players with a torch.
+   */
+  bearing?: number;
+  /** The true direction lies within this many radians either side of `bearing`. */
+  bearingError?: number;
+}
+
+/** Per-room rules chosen when the room is created. */
+export interface RoomSettings {
+  wagerAmount: number;
+  asset: string;
+  minPlayers: number;
+  maxPlayers: number;
+  endRule: EndRule;
+  mode: GameModeId;
+}
+
 export enum RoomPhase {
   Lobby = 'lobby',
   Playing = 'playing',
@@ -61,5 +129,6 @@ export interface WagerRecord {
   playerId: string;
   address: string;
   amount: number;
+  asset: string;
   timestamp: number;
 }
@@ -0,0 +1,90 @@
+import 'dotenv/config';
+import type WebSocket from 'ws';
+import { rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ClientMsgType, ServerMsgType } from './shared/protocol.js';
+import type { ClientMsg, ServerMsg } from './shared/protocol.js';
+import { TICK_MS } from './shared/constants.js';
+import { getGameMode } from './shared/gameModes.js';
+import { generateChestPosition } from './shared/island.js';
+import { ManualClock } from './server/Clock.js';
+import { PlayerSession } from './server/PlayerSession.js';
+import { WagerLedger } from './server/WagerLedger.js';
+import { WagerManager } from './server/WagerManager.js';
+import type { YellowService } from './server/YellowService.js';
+
+/**
+ * Steps one room through a whole match on a ManualClock, with no network or
+ * broker: two players wager, the countdown runs, and both dig on the chest
+ * in the same tick. Usage: `npm run simulate [mode]`.
+ */
+
+// Wagers are recorded without verification, and nothing is written but a scratch ledger.
+process.env.VERIFY_WAGERS = 'false';
+process.env.REPLAY_DIR = '';
+const { GameRoom } = await import('./server/GameRoom.js');
+
+const mode = getGameMode(process.argv[2] ?? 'classic');
+if (!mode) {
+  console.error(`Unknown game mode: ${process.argv[2]}`);
+  process.exit(1);
+}
+
+let dryRunTxId = 0;
+const dryRun = {
+  async transferTo(destination: string, amount: number, asset: string, idempotencyKey: string) {
+    return { idempotencyKey, transactionId: ++dryRunTxId, destination, amount, asset };
+  },
+} as unknown as YellowService;
+
+const ledgerPath = join(tmpdir(), `simulate-${process.pid}.jsonl`);
+const ledger = new WagerLedger(ledgerPath);
+const clock = new ManualClock(Date.now());
+const room = new GameRoom(new WagerManager(dryRun, ledger), '0xsimulation', {
+  wagerAmount: 5,
+  asset: 'ytest.usd',
+  minPlayers: 2,
+  maxPlayers: 2,
+  endRule: 'refund',
+  mode: mode.id,
+}, null, clock);
+
+const received: ServerMsg[] = [];
+const players = ['0x00000000000000000000000000000000000000a1', '0x00000000000000000000000000000000000000b2'].map(address => {
+  const ws = { readyState: 1, OPEN: 1, send: (data: string) => received.push(JSON.parse(data)) };
+  const session = new PlayerSession(ws as unknown as WebSocket);
+  session.address = address;
+  session.authenticated = true;
+  return session;
+});
+
+const send = (session: PlayerSession, msg: ClientMsg) => room.handleMessage(session, msg);
+// Lets settlement, which awaits the broker, run to completion.
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+for (const session of players) {
+  room.addPlayer(session);
+  await send(session, { type: ClientMsgType.WagerConfirmed });
+}
+clock.advance(mode.durations.countdownMs + TICK_MS);
+
+const started = received.find(m => m.type === ServerMsgType.GameStarted);
+if (!started) throw new Error('Match did not start');
+const chest = generateChestPosition(started.seed);
+console.log(`[Simulate] ${mode.name} match started, chest at (${chest.x.toFixed(1)}, ${chest.z.toFixed(1)})`);
+
+for (const session of players) {
+  await send(session, { type: ClientMsgType.StartDig, position: chest });
+}
+clock.advance(mode.durations.digMs + TICK_MS);
+await settle();
+
+const ended = received.find(m => m.type === ServerMsgType.GameEnded);
+const payout = received.find(m => m.type === ServerMsgType.PayoutComplete);
+console.log(`[Simulate] Ended: ${ended?.reason ?? 'still running'}, winner ${ended?.winnerId ?? 'none'}`);
+console.log(`[Simulate] Payout: ${payout?.amount ?? 0} in tx ${payout?.transactionIds.join(', ') || 'none'}`);
+
+clock.advance(10_000);
+console.log(`[Simulate] Outstanding after settlement: ${ledger.outstanding().size}`);
+rmSync(ledgerPath, { force: true });
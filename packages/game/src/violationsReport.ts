@@ -0,0 +1,17 @@
+import 'dotenv/config';
+import { ViolationLog } from './server/ViolationLog.js';
+import { config } from './config.js';
+
+const log = new ViolationLog(config.violationLogPath);
+const addresses = log.byAddress();
+
+if (addresses.length === 0) {
+  console.log('No rejected client messages recorded.');
+  process.exit(0);
+}
+
+console.log(`${addresses.length} address(es) with rejected messages:\n`);
+for (const stats of addresses) {
+  const kinds = Object.entries(stats.byKind).map(([kind, count]) => `${kind}=${count}`).join(' ');
+  console.log(`${stats.address} | total=${stats.total} | ${kinds} | last ${new Date(stats.lastAt).toISOString()}`);
+}